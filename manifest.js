@@ -13,6 +13,14 @@ const manifest = {
   host_permissions: [
     'https://amazon.com/*',
     'https://www.amazon.com/*',
+    'https://amazon.ca/*',
+    'https://www.amazon.ca/*',
+    'https://amazon.co.uk/*',
+    'https://www.amazon.co.uk/*',
+    'https://amazon.de/*',
+    'https://www.amazon.de/*',
+    'https://amazon.com.au/*',
+    'https://www.amazon.com.au/*',
     'https://app.monarchmoney.com/*',
     'https://api.monarchmoney.com/*',
   ],
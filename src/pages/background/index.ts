@@ -1,13 +1,68 @@
-import { Order, fetchOrders } from '@root/src/shared/api/amazonApi';
+import {
+  FetchOrderOptions,
+  Item,
+  Order,
+  checkAmazonAuth,
+  fetchDigitalOrders,
+  fetchGroceryOrders,
+  fetchOrders,
+  fetchSubscriptions,
+} from '@root/src/shared/api/amazonApi';
+import { AmazonCaptchaError, AmazonSignedOutError } from '@root/src/shared/api/amazonRequest';
 import reloadOnUpdate from 'virtual:reload-on-update-in-background-script';
 import 'webextension-polyfill';
-import { Transaction, getTransactions, updateMonarchTransaction } from '@root/src/shared/api/monarchApi';
+import {
+  Transaction,
+  findOrCreateTags,
+  getTransactions,
+  setTransactionTags,
+  updateMonarchTransaction,
+  updateTransactionSplits,
+} from '@root/src/shared/api/monarchApi';
+import { itemSplits } from '@root/src/shared/api/splitUtil';
+import { applyRules, itemCategory, notePrefixed, ruleChanges, ruleTags } from '@root/src/shared/api/ruleUtil';
+import ruleStorage from '@root/src/shared/storages/ruleStorage';
+import categoryStorage, { rememberCategories } from '@root/src/shared/storages/categoryStorage';
+import { confidentSuggestion, suggestionLine, trainCategoryModel } from '@root/src/shared/api/classifierUtil';
 import progressStorage, { ProgressPhase } from '@root/src/shared/storages/progressStorage';
-import transactionStorage, { TransactionStatus } from '@root/src/shared/storages/transactionStorage';
-import { matchTransactions } from '@root/src/shared/api/matchUtil';
-import appStorage, { AuthStatus, FailureReason, LastSync } from '@root/src/shared/storages/appStorage';
+import transactionStorage, {
+  TransactionStatus,
+  storeProfileOrders,
+  storedOrders,
+} from '@root/src/shared/storages/transactionStorage';
+import {
+  MatchOptions,
+  MatchedTransaction,
+  matchTransactions,
+  needsReview,
+  unmatchedReport,
+} from '@root/src/shared/api/matchUtil';
+import appStorage, {
+  AmazonProfile,
+  AuthStatus,
+  CategoryLearning,
+  DEFAULT_AMAZON_PROFILE,
+  DEFAULT_SYNC_TAGS,
+  FailureReason,
+  LastSync,
+  Options,
+  PendingMode,
+  activateAmazonProfile,
+  merchantAliases,
+} from '@root/src/shared/storages/appStorage';
 import { Action } from '@root/src/shared/types';
+import { MarketplaceConfig, getMarketplace } from '@root/src/shared/api/marketplace';
+import { transactionNote } from '@root/src/shared/api/noteUtil';
+import { parseTemplate } from '@root/src/shared/api/templateUtil';
 import debugStorage, { debugLog } from '@root/src/shared/storages/debugStorage';
+import orderCacheStorage, { cacheOrders } from '@root/src/shared/storages/orderCacheStorage';
+import reviewStorage, { ReviewDecision, matchKey } from '@root/src/shared/storages/reviewStorage';
+import linkStorage from '@root/src/shared/storages/linkStorage';
+import pendingNoteStorage, {
+  forgetPendingNotes,
+  rememberPendingNote,
+} from '@root/src/shared/storages/pendingNoteStorage';
+import { findPostedReplacement, isPendingNoteExpired } from '@root/src/shared/api/pendingUtil';
 
 reloadOnUpdate('pages/background');
 
@@ -76,6 +131,9 @@ chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
 
 type Payload = {
   year?: string;
+  // Orders parsed from an Amazon data export, used instead of downloading them from Amazon
+  orders?: Order[];
+  dryRun?: boolean;
 };
 
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
@@ -87,6 +145,10 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     handleDryRun(message.payload, sendResponse);
   } else if (message.action === Action.FullSync) {
     handleFullSync(message.payload, sendResponse);
+  } else if (message.action === Action.Import) {
+    handleImport(message.payload, sendResponse);
+  } else if (message.action === Action.ApplyReviewed) {
+    handleApplyReviewed(sendResponse);
   } else {
     console.warn(`Unknown action: ${message.action}`);
   }
@@ -125,6 +187,30 @@ async function handleFullSync(payload: Payload | undefined, sendResponse: (args:
   sendResponse({ success: false });
 }
 
+async function handleImport(payload: Payload | undefined, sendResponse: (args: unknown) => void) {
+  if ((await inProgress()) || !payload?.orders) {
+    sendResponse({ success: false });
+    return;
+  }
+  const dryRun = payload.dryRun ?? false;
+  if (await importAndStoreTransactions(payload.orders, dryRun)) {
+    if (dryRun || (await updateMonarchTransactions())) {
+      sendResponse({ success: true });
+      return;
+    }
+  }
+  sendResponse({ success: false });
+}
+
+// Writes the matches from the last sync again, now including the ones approved in the review queue
+async function handleApplyReviewed(sendResponse: (args: unknown) => void) {
+  if (await inProgress()) {
+    sendResponse({ success: false });
+    return;
+  }
+  sendResponse({ success: await updateMonarchTransactions() });
+}
+
 async function logSyncComplete(payload: Partial<LastSync>) {
   await debugLog('Sync complete');
   await progressStorage.patch({ phase: ProgressPhase.Complete });
@@ -137,6 +223,7 @@ async function logSyncComplete(payload: Partial<LastSync>) {
       success: payload.success ?? false,
       failureReason: payload.failureReason,
       dryRun: payload.dryRun ?? false,
+      pendingReview: payload.pendingReview ?? 0,
     },
   });
 }
@@ -154,28 +241,76 @@ async function downloadAndStoreTransactions(yearString?: string, dryRun: boolean
 
   await progressStorage.set({ phase: ProgressPhase.AmazonPageScan, total: 0, complete: 0 });
 
+  // Orders are stored per Amazon account, so find out which one is signed in before downloading
+  const amazonInfo = await checkAmazonAuth(appData.options.marketplace);
+  if (amazonInfo.status === AuthStatus.NotLoggedIn) {
+    await appStorage.patch({ amazonStatus: AuthStatus.NotLoggedIn });
+    await logSyncComplete({ success: false, failureReason: FailureReason.NoAmazonAuth });
+    return false;
+  }
+  if (amazonInfo.captcha) {
+    await appStorage.patch({ amazonStatus: AuthStatus.Failure });
+    await logSyncComplete({ success: false, failureReason: FailureReason.AmazonCaptcha });
+    return false;
+  }
+  const profile = await activateAmazonProfile(amazonInfo);
+
   let orders: Order[];
   try {
     await debugLog('Fetching Amazon orders');
-    orders = await fetchOrders(year, async progress => {
+    const { orders: cache } = await orderCacheStorage.get();
+    const fetchOptions: FetchOrderOptions = { cache, concurrency: appData.options.amazonConcurrency ?? 5 };
+    orders = await fetchOrders(appData.options.marketplace, year, fetchOptions, async progress => {
       await progressStorage.patch(progress);
     });
+    if (appData.options.digitalOrders) {
+      await debugLog('Fetching Amazon digital orders');
+      const digitalOrders = await fetchDigitalOrders(
+        appData.options.marketplace,
+        year,
+        fetchOptions,
+        async progress => {
+          await progressStorage.patch(progress);
+        },
+      );
+      orders = orders.concat(digitalOrders);
+    }
+    if (appData.options.groceryOrders) {
+      await debugLog('Fetching Amazon Fresh and Whole Foods orders');
+      const groceryOrders = await fetchGroceryOrders(
+        appData.options.marketplace,
+        year,
+        fetchOptions,
+        async progress => {
+          await progressStorage.patch(progress);
+        },
+      );
+      orders = orders.concat(groceryOrders);
+    }
+    await cacheOrders(orders);
   } catch (e) {
     await debugLog(e);
-    await logSyncComplete({ success: false, failureReason: FailureReason.AmazonError });
+    if (e instanceof AmazonSignedOutError) {
+      await appStorage.patch({ amazonStatus: AuthStatus.NotLoggedIn });
+      await logSyncComplete({ success: false, failureReason: FailureReason.AmazonSignedOut });
+    } else if (e instanceof AmazonCaptchaError) {
+      await logSyncComplete({ success: false, failureReason: FailureReason.AmazonCaptcha });
+    } else {
+      await logSyncComplete({ success: false, failureReason: FailureReason.AmazonError });
+    }
     return false;
   }
 
-  if (!orders || orders.length === 0) {
-    await debugLog('No Amazon orders found');
-    await logSyncComplete({ success: false, failureReason: FailureReason.NoAmazonOrders });
-    return false;
+  // Subscription charges are worked out from the next renewal every time, so they are never cached. The orders are
+  // still worth syncing when the memberships page can't be read, those charges just go without a label.
+  if (appData.options.subscriptions) {
+    try {
+      orders = orders.concat(await fetchSubscriptions(appData.options.marketplace, year));
+    } catch (e) {
+      await debugLog('Could not read subscriptions, syncing without them');
+      await debugLog(e);
+    }
   }
-  await transactionStorage.patch({
-    orders: orders,
-  });
-
-  await progressStorage.patch({ phase: ProgressPhase.MonarchDownload, total: 1, complete: 0 });
 
   let startDate: Date;
   let endDate: Date;
@@ -190,10 +325,99 @@ async function downloadAndStoreTransactions(yearString?: string, dryRun: boolean
     endDate.setDate(startDate.getDate() + 8);
   }
 
+  return storeTransactions(orders, profile, startDate, endDate, dryRun);
+}
+
+async function importAndStoreTransactions(orders: Order[], dryRun: boolean = false) {
+  await debugStorage.set({ logs: [] });
+  await debugLog('Importing ' + orders.length + ' Amazon orders from the data export');
+
+  // Cover every imported charge, with the same margin around it as a normal sync
+  const times = orders
+    .flatMap(order => order.transactions?.map(transaction => new Date(transaction.date).getTime()) ?? [])
+    .filter(time => !isNaN(time));
+  // e.g. an export with only returns, there is nothing to match and no range to ask Monarch for
+  if (times.length === 0) {
+    await debugLog('No Amazon charges in the data export');
+    await logSyncComplete({ success: false, failureReason: FailureReason.NoAmazonOrders });
+    return false;
+  }
+  const startDate = new Date(Math.min(...times));
+  startDate.setDate(startDate.getDate() - 8);
+  const endDate = new Date(Math.max(...times));
+  endDate.setDate(endDate.getDate() + 8);
+
+  // The export belongs to whichever Amazon account was last synced
+  const { amazonProfiles, activeAmazonProfile } = await appStorage.get();
+  const profile = amazonProfiles?.find(profile => profile.id === activeAmazonProfile) ?? {
+    id: DEFAULT_AMAZON_PROFILE,
+    label: 'Amazon',
+  };
+
+  return storeTransactions(orders, profile, startDate, endDate, dryRun);
+}
+
+async function storeTransactions(
+  profileOrders: Order[],
+  profile: AmazonProfile,
+  startDate: Date,
+  endDate: Date,
+  dryRun: boolean,
+) {
+  const appData = await appStorage.get();
+  if (!appData.monarchKey) {
+    await logSyncComplete({ success: false, failureReason: FailureReason.NoMonarchAuth });
+    return false;
+  }
+
+  if (!profileOrders || profileOrders.length === 0) {
+    await debugLog('No Amazon orders found');
+    await logSyncComplete({ success: false, failureReason: FailureReason.NoAmazonOrders });
+    return false;
+  }
+
+  // Label every order with its account, then match against the orders of all accounts in the household
+  const labelled = profileOrders.map(order => ({
+    ...order,
+    profile: profile.label,
+    transactions: order.transactions?.map(transaction => ({ ...transaction, profile: profile.label })),
+  }));
+  const orders = await storeProfileOrders(profile.id, labelled);
+  await appStorage.patch({
+    amazonProfiles: (appData.amazonProfiles ?? []).map(existing =>
+      existing.id === profile.id ? { ...existing, lastSync: Date.now() } : existing,
+    ),
+  });
+
+  await progressStorage.patch({ phase: ProgressPhase.MonarchDownload, total: 1, complete: 0 });
+
   let monarchTransactions: Transaction[];
   try {
     await debugLog('Fetching Monarch transactions');
-    monarchTransactions = await getTransactions(appData.monarchKey, appData.options.amazonMerchant, startDate, endDate);
+    const merchants = [...merchantAliases(appData.options)];
+    const extraMerchants: string[] = [];
+    if (appData.options.digitalOrders && appData.options.amazonDigitalMerchant) {
+      extraMerchants.push(appData.options.amazonDigitalMerchant);
+    }
+    if (appData.options.groceryOrders) {
+      extraMerchants.push(appData.options.amazonFreshMerchant, appData.options.wholeFoodsMerchant);
+    }
+    if (appData.options.subscriptions) {
+      extraMerchants.push(appData.options.subscriptionMerchant);
+    }
+    for (const name of extraMerchants.filter(Boolean)) {
+      if (!merchants.some(merchant => merchant.name === name)) merchants.push({ name });
+    }
+
+    monarchTransactions = [];
+    for (const merchant of merchants.filter(merchant => merchant.id || merchant.name)) {
+      const merchantTransactions = await getTransactions(appData.monarchKey, merchant, startDate, endDate);
+      // The merchant searches can overlap, e.g. "Amazon" also finds "Amazon Digital" and "Amazon Fresh"
+      const seen = new Set(monarchTransactions.map(transaction => transaction.id));
+      monarchTransactions = monarchTransactions.concat(
+        merchantTransactions.filter(transaction => !seen.has(transaction.id)),
+      );
+    }
     if (!monarchTransactions || monarchTransactions.length === 0) {
       await logSyncComplete({ success: false, failureReason: FailureReason.NoMonarchTransactions });
       return false;
@@ -204,19 +428,41 @@ async function downloadAndStoreTransactions(yearString?: string, dryRun: boolean
     return false;
   }
 
+  if ((appData.options.categoryLearning ?? CategoryLearning.Off) !== CategoryLearning.Off) {
+    await rememberCategories(monarchTransactions);
+  }
+
+  const links = await linkStorage.get();
   await transactionStorage.patch({
     result: TransactionStatus.Success,
     transactions: monarchTransactions,
+    unmatched: unmatchedReport(
+      monarchTransactions,
+      orders,
+      appData.options.overrideTransactions,
+      appData.options.paymentAccounts,
+      appData.options.matchOptions,
+      links,
+    ),
   });
 
   if (dryRun) {
-    const matches = matchTransactions(monarchTransactions, orders, appData.options.overrideTransactions);
+    const matches = matchTransactions(
+      monarchTransactions,
+      orders,
+      appData.options.overrideTransactions,
+      appData.options.paymentAccounts,
+      appData.options.matchOptions,
+      links,
+    );
+    const { approved, pendingReview } = await reviewedMatches(matches, appData.options.matchOptions);
     await logSyncComplete({
       success: true,
       dryRun: true,
       amazonOrders: orders.length,
       monarchTransactions: monarchTransactions.length,
-      transactionsUpdated: matches.length,
+      transactionsUpdated: approved.length,
+      pendingReview,
     });
     return true;
   }
@@ -228,13 +474,14 @@ async function updateMonarchTransactions() {
   await progressStorage.patch({ phase: ProgressPhase.MonarchUpload, total: 0, complete: 0 });
 
   const transactions = await transactionStorage.get();
+  const orders = storedOrders(transactions);
   const appData = await appStorage.get();
 
   if (!appData.monarchKey) {
     await logSyncComplete({
       success: false,
       failureReason: FailureReason.NoMonarchAuth,
-      amazonOrders: transactions.orders.length,
+      amazonOrders: orders.length,
       monarchTransactions: transactions.transactions.length,
     });
     return false;
@@ -242,42 +489,237 @@ async function updateMonarchTransactions() {
 
   const matches = matchTransactions(
     transactions.transactions,
-    transactions.orders,
+    orders,
     appData.options.overrideTransactions,
+    appData.options.paymentAccounts,
+    appData.options.matchOptions,
+    await linkStorage.get(),
   );
+  const { approved, pendingReview } = await reviewedMatches(matches, appData.options.matchOptions);
+  const marketplace = getMarketplace(appData.options.marketplace);
+  // Only say which account an order came from when there is more than one
+  const multipleProfiles = (appData.amazonProfiles ?? []).length > 1;
+  const skipPending = appData.options.pendingTransactions === PendingMode.Skip;
+  const { rules } = await ruleStorage.get();
+  const orderDates = new Map(orders.map(order => [order.id, order.date]));
+  const learning = appData.options.categoryLearning ?? CategoryLearning.Off;
+  const categoryConfidence = appData.options.categoryConfidence ?? 0.8;
+  const model =
+    learning === CategoryLearning.Off
+      ? undefined
+      : trainCategoryModel(Object.values((await categoryStorage.get()).examples ?? {}));
+
+  const syncTags = await syncTagIds(appData.monarchKey, appData.options);
+  const template = appData.options.noteTemplate;
+  if (template?.trim()) {
+    try {
+      parseTemplate(template);
+    } catch (e) {
+      await debugLog('Using the default note, the note template has an error: ' + e);
+    }
+  }
 
-  for (const data of matches) {
-    const itemString = data.amazon.items
-      .map(item => {
-        return item.title + ' - $' + item.price.toFixed(2);
-      })
-      .join('\n\n')
-      .trim();
-    if (itemString.length === 0) {
+  for (const data of approved) {
+    if (data.monarch.pending && skipPending) {
+      await debugLog('Transaction ' + data.monarch.id + ' is pending, waiting for it to post');
+      continue;
+    }
+    const profile = multipleProfiles ? data.amazon.profile : undefined;
+    const orderDate = orderDates.get(data.amazon.id);
+    const itemsString = transactionNote(data.amazon, marketplace, {
+      template,
+      profile,
+      orderDate,
+      originalDate: data.original?.date ?? data.amazon.originalDate,
+    });
+    if (data.amazon.items.length === 0 || itemsString.length === 0) {
       await debugLog('No items found for transaction ' + data.monarch.id);
       continue;
     }
-    if (data.monarch.notes === itemString) {
+    const ruleResult = applyRules(rules ?? [], data.amazon, orderDate);
+    if (ruleResult.rules.length > 0) {
+      await debugLog(
+        'Rules for transaction ' + data.monarch.id + ': ' + ruleResult.rules.map(rule => rule.name).join(', '),
+      );
+    }
+    const suggestion = model ? confidentSuggestion(model, data.amazon.items, categoryConfidence) : undefined;
+    const itemString =
+      suggestion && learning === CategoryLearning.Suggest
+        ? notePrefixed(itemsString, ruleResult) + '\n\n' + suggestionLine(suggestion)
+        : notePrefixed(itemsString, ruleResult);
+    // Learned categories are only set along with the first note, after that the category is the user's
+    const learnCategory = learning === CategoryLearning.Apply && data.monarch.notes !== itemString;
+    const tagIds = ruleResult.tagIds.concat(
+      [
+        syncTags.synced,
+        data.amazon.refund ? syncTags.refund : undefined,
+        needsReview(data, appData.options.matchOptions) ? syncTags.lowConfidence : undefined,
+      ].filter((id): id is string => !!id),
+    );
+    const missingTags = ruleTags(data.monarch, { ...ruleResult, tagIds });
+    const split = shouldSplit(data, appData.options);
+    // A split transaction's category is the category of each split
+    const changes = ruleChanges(data.monarch, {
+      ...ruleResult,
+      categoryId:
+        split || data.monarch.hasSplitTransactions
+          ? undefined
+          : ruleResult.categoryId ?? (learnCategory ? suggestion?.category.id : undefined),
+    });
+    if (data.monarch.notes === itemString && Object.keys(changes).length === 0 && !missingTags && !split) {
       await debugLog('Transaction ' + data.monarch.id + ' already has correct note');
       continue;
     }
 
-    updateMonarchTransaction(appData.monarchKey, data.monarch.id, itemString);
+    if (split) {
+      await splitTransaction(
+        appData.monarchKey,
+        data,
+        marketplace,
+        item =>
+          itemCategory(rules ?? [], item, data.amazon, orderDate) ??
+          (model && learnCategory ? confidentSuggestion(model, [item], categoryConfidence)?.category.id : undefined),
+      );
+    }
+    await tagTransaction(appData.monarchKey, data.monarch, missingTags);
+    updateMonarchTransaction(appData.monarchKey, data.monarch.id, itemString, changes);
     await debugLog('Updated transaction ' + data.monarch.id + ' with note ' + itemString);
+    if (data.monarch.pending) {
+      await rememberPendingNote(data.monarch, itemString);
+    }
     await progressStorage.patch({
-      total: matches.length,
-      complete: matches.indexOf(data) + 1,
+      total: approved.length,
+      complete: approved.indexOf(data) + 1,
     });
     await new Promise(resolve => setTimeout(resolve, 500));
   }
 
+  await carryOverPendingNotes(appData.monarchKey, transactions.transactions, approved);
+
   await logSyncComplete({
     success: true,
-    amazonOrders: transactions.orders.length,
+    amazonOrders: orders.length,
     monarchTransactions: transactions.transactions.length,
-    transactionsUpdated: matches.length,
+    transactionsUpdated: approved.length,
+    pendingReview,
   });
   await progressStorage.patch({ phase: ProgressPhase.Complete });
 
   return true;
 }
+
+// Low confidence matches are held back until they are approved in the review queue, rejected ones are dropped
+async function reviewedMatches(matches: MatchedTransaction[], options: MatchOptions | undefined) {
+  const { decisions } = await reviewStorage.get();
+  const approved: MatchedTransaction[] = [];
+  let pendingReview = 0;
+  for (const match of matches) {
+    const decision = decisions?.[matchKey(match)];
+    if (!needsReview(match, options) || decision === ReviewDecision.Approved) {
+      approved.push(match);
+    } else if (decision === ReviewDecision.Rejected) {
+      await debugLog('Skipping rejected match for transaction ' + match.monarch.id);
+    } else {
+      await debugLog('Transaction ' + match.monarch.id + ' is waiting for review: ' + match.reasons.join(', '));
+      pendingReview++;
+    }
+  }
+  return { approved, pendingReview };
+}
+
+// Moves notes from pending transactions that are gone to the posted transaction that replaced them
+async function carryOverPendingNotes(monarchKey: string, transactions: Transaction[], matches: MatchedTransaction[]) {
+  const { notes } = await pendingNoteStorage.get();
+  const byId = new Map(transactions.map(transaction => [transaction.id, transaction]));
+  // Transactions that got a note of their own this sync don't need one carried over
+  const matched = new Set(matches.map(match => match.monarch.id));
+  const claimed = new Set<string>();
+  const done: string[] = [];
+
+  for (const [id, pending] of Object.entries(notes ?? {})) {
+    const current = byId.get(id);
+    if (current) {
+      // Posted with the same id, the note is already there
+      if (!current.pending) done.push(id);
+      continue;
+    }
+
+    const replacement = findPostedReplacement(pending, transactions, claimed);
+    if (replacement) {
+      claimed.add(replacement.id);
+      done.push(id);
+      if (!replacement.notes && !matched.has(replacement.id)) {
+        updateMonarchTransaction(monarchKey, replacement.id, pending.note);
+        await debugLog('Moved note of pending transaction ' + id + ' to posted transaction ' + replacement.id);
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+    } else if (isPendingNoteExpired(pending)) {
+      await debugLog('Gave up on finding the posted transaction for pending transaction ' + id);
+      done.push(id);
+    }
+  }
+
+  await forgetPendingNotes(done);
+}
+
+// Transactions are only split once. Splitting again would undo categories changed by hand on the splits.
+function shouldSplit(match: MatchedTransaction, options: Options): boolean {
+  return (
+    options.splitTransactions &&
+    !match.amazon.refund &&
+    match.amazon.items.length > 1 &&
+    !match.monarch.hasSplitTransactions
+  );
+}
+
+// Splits a matched purchase into one split per item. Items without a category of their own keep the category the
+// transaction already has.
+async function splitTransaction(
+  monarchKey: string,
+  match: MatchedTransaction,
+  marketplace: MarketplaceConfig,
+  categoryOf: (item: Item) => string | undefined,
+) {
+  const splits = itemSplits(
+    match.amazon.items,
+    match.monarch.amount,
+    marketplace,
+    item => categoryOf(item) ?? match.monarch.category?.id,
+  );
+  try {
+    await updateTransactionSplits(monarchKey, match.monarch.id, splits);
+    await debugLog('Split transaction ' + match.monarch.id + ' into ' + splits.length + ' items');
+  } catch (e) {
+    await debugLog(e);
+  }
+}
+
+// The ids of the Monarch tags synced transactions get, creating the tags that don't exist yet
+async function syncTagIds(
+  monarchKey: string,
+  options: Options,
+): Promise<{ synced?: string; refund?: string; lowConfidence?: string }> {
+  const syncTags = { ...DEFAULT_SYNC_TAGS, ...(options.syncTags ?? {}) };
+  if (!syncTags.enabled) return {};
+  try {
+    const ids = await findOrCreateTags(monarchKey, [syncTags.synced, syncTags.refund, syncTags.lowConfidence]);
+    return {
+      synced: ids[syncTags.synced.trim()],
+      refund: ids[syncTags.refund.trim()],
+      lowConfidence: ids[syncTags.lowConfidence.trim()],
+    };
+  } catch (e) {
+    await debugLog(e);
+    return {};
+  }
+}
+
+async function tagTransaction(monarchKey: string, transaction: Transaction, tagIds: string[] | undefined) {
+  if (!tagIds) return;
+  try {
+    await setTransactionTags(monarchKey, transaction.id, tagIds);
+    await debugLog('Tagged transaction ' + transaction.id);
+  } catch (e) {
+    await debugLog(e);
+  }
+}
@@ -0,0 +1,139 @@
+import useStorage from '@root/src/shared/hooks/useStorage';
+import appStorage from '@root/src/shared/storages/appStorage';
+import transactionStorage, { storedOrders } from '@root/src/shared/storages/transactionStorage';
+import linkStorage, {
+  neverMatchTransaction,
+  pinTransaction,
+  unlinkTransaction,
+} from '@root/src/shared/storages/linkStorage';
+import { formatMoney, getMarketplace } from '@root/src/shared/api/marketplace';
+import { Button, Label, TextInput } from 'flowbite-react';
+import { useMemo, useState } from 'react';
+
+const MAX_RESULTS = 20;
+
+// Fix what the matcher got wrong: pin a Monarch transaction to an Amazon order or keep it from ever being matched
+export function Links() {
+  const appData = useStorage(appStorage);
+  const { transactions, profileOrders } = useStorage(transactionStorage);
+  const orders = useMemo(() => storedOrders({ profileOrders }), [profileOrders]);
+  const { pinned, neverMatch } = useStorage(linkStorage);
+
+  const [transactionSearch, setTransactionSearch] = useState('');
+  const [orderSearch, setOrderSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | undefined>(undefined);
+
+  const marketplace = getMarketplace(appData.options.marketplace);
+  const linked = useMemo(() => new Set([...Object.keys(pinned ?? {}), ...(neverMatch ?? [])]), [pinned, neverMatch]);
+
+  const foundTransactions = useMemo(() => {
+    const search = transactionSearch.trim().toLowerCase();
+    return transactions
+      .filter(
+        transaction =>
+          linked.has(transaction.id) ||
+          (search &&
+            [transaction.date, transaction.amount.toFixed(2), transaction.notes ?? '', transaction.account?.displayName]
+              .join(' ')
+              .toLowerCase()
+              .includes(search)),
+      )
+      .slice(0, MAX_RESULTS);
+  }, [transactions, transactionSearch, linked]);
+
+  const foundOrders = useMemo(() => {
+    const search = orderSearch.trim().toLowerCase();
+    if (!search) return [];
+    return orders
+      .filter(order =>
+        [
+          order.id,
+          order.date,
+          ...(order.transactions?.flatMap(transaction => transaction.items.map(item => item.title)) ?? []),
+        ]
+          .join(' ')
+          .toLowerCase()
+          .includes(search),
+      )
+      .slice(0, MAX_RESULTS);
+  }, [orders, orderSearch]);
+
+  const selected = transactions.find(transaction => transaction.id === selectedId);
+
+  return (
+    <div className="m-3 flex flex-col">
+      <Label htmlFor="transactionSearch" value="Find a Monarch transaction from the last sync" />
+      <TextInput
+        id="transactionSearch"
+        sizing="sm"
+        className="pt-1"
+        placeholder="Date, amount or note"
+        value={transactionSearch}
+        onChange={element => setTransactionSearch(element.target.value)}
+      />
+      <div className="flex flex-col pt-2">
+        {foundTransactions.map(transaction => (
+          <button
+            key={transaction.id}
+            className={`flex flex-row justify-between text-left text-xs py-1 border-b ${
+              transaction.id === selectedId ? 'bg-cyan-50' : ''
+            }`}
+            onClick={() => setSelectedId(transaction.id)}>
+            <span>
+              {transaction.date} {formatMoney(transaction.amount, marketplace)}
+              {transaction.account ? ' - ' + transaction.account.displayName : ''}
+            </span>
+            <span className="text-gray-500">
+              {pinned?.[transaction.id]
+                ? 'Linked to ' + pinned[transaction.id]
+                : neverMatch?.includes(transaction.id)
+                  ? 'Never matched'
+                  : ''}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="flex flex-col pt-3">
+          <div className="flex flex-row gap-2">
+            <Button size="xs" color="light" onClick={() => neverMatchTransaction(selected.id)}>
+              Never match
+            </Button>
+            {linked.has(selected.id) && (
+              <Button size="xs" color="light" onClick={() => unlinkTransaction(selected.id)}>
+                Remove link
+              </Button>
+            )}
+          </div>
+          <Label htmlFor="orderSearch" className="pt-3" value="Link it to an Amazon order" />
+          <TextInput
+            id="orderSearch"
+            sizing="sm"
+            className="pt-1"
+            placeholder="Order number, date or item"
+            value={orderSearch}
+            onChange={element => setOrderSearch(element.target.value)}
+          />
+          {foundOrders.map(order => (
+            <div key={order.id} className="flex flex-row items-center justify-between text-xs py-1 border-b">
+              <span className="w-3/4">
+                {order.date} {order.id}:{' '}
+                {order.transactions?.[0]?.items.map(item => item.title).join(', ') ?? 'no items'}
+              </span>
+              <Button size="xs" color="cyan" onClick={() => pinTransaction(selected.id, order.id)}>
+                Link
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <span className="mt-3 text-gray-500 text-xs font-normal">
+        Links are kept across syncs. A linked transaction always gets the note of its order, a transaction that is never
+        matched is left alone even when overriding notes.
+      </span>
+    </div>
+  );
+}
+
+export default Links;
@@ -3,11 +3,13 @@ import { Button, ToggleSwitch } from 'flowbite-react';
 import progressStorage, { ProgressPhase } from '@root/src/shared/storages/progressStorage';
 import useStorage from '@root/src/shared/hooks/useStorage';
 import { checkAmazonAuth } from '@root/src/shared/api/amazonApi';
-import appStorage, { AuthStatus } from '@root/src/shared/storages/appStorage';
+import appStorage, { AuthStatus, activateAmazonProfile } from '@root/src/shared/storages/appStorage';
 import ProgressIndicator from './components/ProgressIndicator';
 import withErrorBoundary from '@root/src/shared/hoc/withErrorBoundary';
 import withSuspense from '@root/src/shared/hoc/withSuspense';
 import ConnectionInfo, { ConnectionStatus } from './components/ConnectionInfo';
+import AmazonProfiles from './components/AmazonProfiles';
+import UnmatchedReport from './components/UnmatchedReport';
 import { useAlarm } from '@root/src/shared/hooks/useAlarm';
 import { Action } from '@root/src/shared/types';
 
@@ -52,19 +54,20 @@ const Main = () => {
     }
     setCheckedAmazon(true);
     appStorage.patch({ amazonStatus: AuthStatus.Pending }).then(() => {
-      checkAmazonAuth().then(amazon => {
+      checkAmazonAuth(appData.options.marketplace).then(amazon => {
         if (amazon.status === AuthStatus.Success) {
           appStorage.patch({
             amazonStatus: AuthStatus.Success,
             lastAmazonAuth: Date.now(),
             oldestAmazonYear: amazon.startingYear,
           });
+          activateAmazonProfile(amazon);
         } else {
           appStorage.patch({ amazonStatus: amazon.status });
         }
       });
     });
-  }, [appData.amazonStatus, appData.lastAmazonAuth, checkedAmazon]);
+  }, [appData.amazonStatus, appData.lastAmazonAuth, appData.options.marketplace, checkedAmazon]);
 
   const ready =
     appData.amazonStatus === AuthStatus.Success && appData.monarchStatus === AuthStatus.Success && !actionOngoing;
@@ -108,11 +111,13 @@ const Main = () => {
                 : undefined
           }
         />
+        <AmazonProfiles />
       </div>
 
       <div className="flex flex-col flex-grow items-center justify-center">
         <ProgressIndicator progress={progress} />
       </div>
+      {!actionOngoing && <UnmatchedReport />}
 
       <div className="flex flex-row m-3 items-center">
         <div className="flex flex-col">
@@ -1,10 +1,12 @@
 import useStorage from '@root/src/shared/hooks/useStorage';
 import appStorage, { AuthStatus, Page } from '@root/src/shared/storages/appStorage';
 import progressStorage, { ProgressPhase } from '@root/src/shared/storages/progressStorage';
-import { Button, ToggleSwitch } from 'flowbite-react';
+import { Button, FileInput, Label, ToggleSwitch } from 'flowbite-react';
 import { useCallback, useMemo, useState } from 'react';
 import YearSelector from './components/YearSelector';
 import { Action } from '@root/src/shared/types';
+import { Order } from '@root/src/shared/api/amazonApi';
+import { ExportFileType, detectExportFileType, ordersFromExportFiles } from '@root/src/shared/api/amazonExportUtil';
 
 export function ManualBackfill() {
   const appData = useStorage(appStorage);
@@ -12,6 +14,8 @@ export function ManualBackfill() {
 
   const [year, setYear] = useState<string | undefined>(undefined);
   const [dryRun, setDryRun] = useState<boolean>(false);
+  const [importedOrders, setImportedOrders] = useState<Order[] | undefined>(undefined);
+  const [importError, setImportError] = useState<string | undefined>(undefined);
 
   const actionOngoing = useMemo(
     () => progress.phase !== ProgressPhase.Complete && progress.phase !== ProgressPhase.Idle,
@@ -20,6 +24,9 @@ export function ManualBackfill() {
   const ready =
     appData.amazonStatus === AuthStatus.Success && appData.monarchStatus === AuthStatus.Success && !actionOngoing;
 
+  // Importing doesn't talk to Amazon, so only Monarch has to be connected
+  const importReady = appData.monarchStatus === AuthStatus.Success && !actionOngoing;
+
   const runBackfill = useCallback(async () => {
     if (!ready) return;
 
@@ -27,6 +34,32 @@ export function ManualBackfill() {
     await chrome.runtime.sendMessage({ action: dryRun ? Action.DryRun : Action.FullSync, payload: { year: year } });
   }, [ready, dryRun, year]);
 
+  const readExportFiles = useCallback(async (files: FileList | null) => {
+    setImportedOrders(undefined);
+    setImportError(undefined);
+    if (!files || files.length === 0) {
+      return;
+    }
+    try {
+      const contents = await Promise.all([...files].map(file => file.text()));
+      if (contents.every(text => detectExportFileType(text) === ExportFileType.Unknown)) {
+        setImportError('None of the selected files is an Amazon order history or returns file.');
+        return;
+      }
+      setImportedOrders(ordersFromExportFiles(contents));
+    } catch (e) {
+      // csv-parse throws on malformed files, e.g. an unbalanced quote
+      setImportError('The selected files could not be read: ' + (e instanceof Error ? e.message : String(e)));
+    }
+  }, []);
+
+  const runImport = useCallback(async () => {
+    if (!importReady || !importedOrders) return;
+
+    await appStorage.patch({ page: Page.Default });
+    await chrome.runtime.sendMessage({ action: Action.Import, payload: { orders: importedOrders, dryRun } });
+  }, [importReady, importedOrders, dryRun]);
+
   return (
     <div className="m-3 flex flex-col flex-grow">
       <div className="flex-grow">
@@ -44,11 +77,41 @@ export function ManualBackfill() {
             If you want to see what transactions would be synced without actually syncing them, you can turn on dry run.
           </span>
         </div>
+
+        <div className="flex flex-col mt-3">
+          <div className="mb-2 block">
+            <Label htmlFor="exportFiles" value="Or import an Amazon data export" />
+          </div>
+          <FileInput
+            id="exportFiles"
+            accept=".csv"
+            multiple
+            onChange={e => {
+              readExportFiles(e.target.files);
+            }}
+          />
+          <span className="mt-1 text-gray-500 text-xs font-normal">
+            Pick Retail.OrderHistory and Retail.CustomerReturns CSV files from Amazon&apos;s &quot;Request Your
+            Data&quot; export. Orders are read from the files instead of amazon.com.
+          </span>
+          {importedOrders && (
+            <span className="mt-1 text-xs font-normal">
+              Found {importedOrders.length} orders in the selected files.
+            </span>
+          )}
+          {importError && <span className="mt-1 text-red-500 text-xs font-normal">{importError}</span>}
+        </div>
       </div>
 
-      <Button color="cyan" disabled={!ready} onClick={runBackfill}>
-        Run backfill
-      </Button>
+      {importedOrders ? (
+        <Button color="cyan" disabled={!importReady || importedOrders.length === 0} onClick={runImport}>
+          Run import
+        </Button>
+      ) : (
+        <Button color="cyan" disabled={!ready} onClick={runBackfill}>
+          Run backfill
+        </Button>
+      )}
     </div>
   );
 }
@@ -1,12 +1,33 @@
 import useStorage from '@root/src/shared/hooks/useStorage';
-import appStorage, { AuthStatus } from '@root/src/shared/storages/appStorage';
+import appStorage, {
+  AuthStatus,
+  CategoryLearning,
+  DEFAULT_SYNC_TAGS,
+  PendingMode,
+} from '@root/src/shared/storages/appStorage';
 import debugStorage from '@root/src/shared/storages/debugStorage';
-import { Label, TextInput, ToggleSwitch } from 'flowbite-react';
-import { useCallback, useEffect } from 'react';
+import orderCacheStorage from '@root/src/shared/storages/orderCacheStorage';
+import { Marketplace, allMarketplaces } from '@root/src/shared/api/marketplace';
+import { Label, Select, TextInput, ToggleSwitch } from 'flowbite-react';
+import { useCallback, useEffect, useMemo } from 'react';
+import PaymentAccountMapping from './components/PaymentAccountMapping';
+import AmazonProfiles from './components/AmazonProfiles';
+import MatchSettings from './components/MatchSettings';
+import MerchantAliases from './components/MerchantAliases';
+import TagSettings from './components/TagSettings';
+import NoteTemplate from './components/NoteTemplate';
+import { DEFAULT_MATCH_OPTIONS } from '@root/src/shared/api/matchUtil';
 
 export function Options() {
   const { options } = useStorage(appStorage);
   const { logs } = useStorage(debugStorage);
+  const { orders: cachedOrders } = useStorage(orderCacheStorage);
+
+  const cacheCounts = useMemo(() => {
+    const cached = Object.values(cachedOrders ?? {});
+    const final = cached.filter(order => order.final).length;
+    return { final, open: cached.length - final };
+  }, [cachedOrders]);
 
   const downloadDebugLog = useCallback(() => {
     const errorString = logs.join('\n');
@@ -18,6 +39,19 @@ export function Options() {
     });
   }, [logs]);
 
+  const downloadOrderCache = useCallback(() => {
+    const blob = new Blob([JSON.stringify(cachedOrders, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    chrome.downloads.download({
+      url: url,
+      filename: 'amazon-order-cache.json',
+    });
+  }, [cachedOrders]);
+
+  const clearOrderCache = useCallback(async () => {
+    await orderCacheStorage.set({ orders: {} });
+  }, []);
+
   const resetMonarchStatus = useCallback(async () => {
     await appStorage.patch({
       monarchKey: undefined,
@@ -32,7 +66,30 @@ export function Options() {
 
   useEffect(() => {
     if (!options) {
-      appStorage.patch({ options: { overrideTransactions: false, syncEnabled: false, amazonMerchant: 'Amazon' } });
+      appStorage.patch({
+        options: {
+          marketplace: Marketplace.US,
+          overrideTransactions: false,
+          splitTransactions: false,
+          syncEnabled: false,
+          merchants: [{ name: 'Amazon' }],
+          digitalOrders: false,
+          amazonDigitalMerchant: 'Amazon Digital',
+          groceryOrders: false,
+          amazonFreshMerchant: 'Amazon Fresh',
+          wholeFoodsMerchant: 'Whole Foods Market',
+          subscriptions: false,
+          subscriptionMerchant: 'Amazon Prime',
+          amazonConcurrency: 5,
+          paymentAccounts: {},
+          matchOptions: DEFAULT_MATCH_OPTIONS,
+          pendingTransactions: PendingMode.Annotate,
+          categoryLearning: CategoryLearning.Off,
+          categoryConfidence: 0.8,
+          syncTags: DEFAULT_SYNC_TAGS,
+          noteTemplate: '',
+        },
+      });
     }
   }, [options]);
 
@@ -43,18 +100,151 @@ export function Options() {
   return (
     <div className="m-3">
       <div className="mb-2 block">
-        <Label htmlFor="countries" value="What merchant is Amazon in Monarch?" />
+        <Label htmlFor="marketplace" value="Which Amazon store do you shop at?" />
       </div>
-      <TextInput
-        defaultValue={options?.amazonMerchant}
+      <Select
+        id="marketplace"
         className="pb-3"
-        type="text"
-        id="merchant"
-        placeholder="Amazon merchant"
+        value={options.marketplace ?? Marketplace.US}
+        onChange={e => {
+          // The login has to be checked again against the new store
+          appStorage.patch({
+            options: { ...options, marketplace: e.target.value as Marketplace },
+            amazonStatus: AuthStatus.NotLoggedIn,
+            lastAmazonAuth: 0,
+          });
+        }}>
+        {allMarketplaces().map(([marketplace, config]) => (
+          <option key={marketplace} value={marketplace}>
+            {config.name}
+          </option>
+        ))}
+      </Select>
+      <MerchantAliases />
+      <div className="flex flex-col pb-3">
+        <ToggleSwitch
+          checked={options.digitalOrders ?? false}
+          label="Sync digital orders"
+          onChange={value => {
+            appStorage.patch({ options: { ...options, digitalOrders: value } });
+          }}
+        />
+        <span className="mt-1 text-gray-500 text-xs font-normal">
+          Also sync Kindle, Prime Video, Audible and app purchases. These usually show up under a separate merchant in
+          Monarch.
+        </span>
+        {options.digitalOrders && (
+          <TextInput
+            defaultValue={options.amazonDigitalMerchant ?? 'Amazon Digital'}
+            className="pt-2"
+            type="text"
+            id="digitalMerchant"
+            placeholder="Amazon digital merchant"
+            onChange={element => {
+              appStorage.patch({ options: { ...options, amazonDigitalMerchant: element.target.value } });
+            }}
+          />
+        )}
+      </div>
+      <div className="flex flex-col pb-3">
+        <ToggleSwitch
+          checked={options.groceryOrders ?? false}
+          label="Sync Amazon Fresh and Whole Foods orders"
+          onChange={value => {
+            appStorage.patch({ options: { ...options, groceryOrders: value } });
+          }}
+        />
+        <span className="mt-1 text-gray-500 text-xs font-normal">
+          Grocery deliveries show up under their own merchants in Monarch. Substitutions, items sold by weight and tips
+          are included in the notes.
+        </span>
+        {options.groceryOrders && (
+          <>
+            <TextInput
+              defaultValue={options.amazonFreshMerchant ?? 'Amazon Fresh'}
+              className="pt-2"
+              type="text"
+              id="freshMerchant"
+              placeholder="Amazon Fresh merchant"
+              onChange={element => {
+                appStorage.patch({ options: { ...options, amazonFreshMerchant: element.target.value } });
+              }}
+            />
+            <TextInput
+              defaultValue={options.wholeFoodsMerchant ?? 'Whole Foods Market'}
+              className="pt-2"
+              type="text"
+              id="wholeFoodsMerchant"
+              placeholder="Whole Foods merchant"
+              onChange={element => {
+                appStorage.patch({ options: { ...options, wholeFoodsMerchant: element.target.value } });
+              }}
+            />
+          </>
+        )}
+      </div>
+      <div className="flex flex-col pb-3">
+        <ToggleSwitch
+          checked={options.subscriptions ?? false}
+          label="Sync memberships and subscriptions"
+          onChange={value => {
+            appStorage.patch({ options: { ...options, subscriptions: value } });
+          }}
+        />
+        <span className="mt-1 text-gray-500 text-xs font-normal">
+          Label Prime, Kindle Unlimited and Audible charges with the membership name and when it renews.
+        </span>
+        {options.subscriptions && (
+          <TextInput
+            defaultValue={options.subscriptionMerchant ?? 'Amazon Prime'}
+            className="pt-2"
+            type="text"
+            id="subscriptionMerchant"
+            placeholder="Subscription merchant"
+            onChange={element => {
+              appStorage.patch({ options: { ...options, subscriptionMerchant: element.target.value } });
+            }}
+          />
+        )}
+      </div>
+      <AmazonProfiles editable />
+      <PaymentAccountMapping />
+      <div className="mb-2 block">
+        <Label htmlFor="concurrency" value="How many Amazon orders to download at once?" />
+      </div>
+      <TextInput
+        defaultValue={options.amazonConcurrency ?? 5}
+        className="pb-1"
+        type="number"
+        min={1}
+        max={10}
+        id="concurrency"
         onChange={element => {
-          appStorage.patch({ options: { ...options, amazonMerchant: element.target.value } });
+          const value = parseInt(element.target.value);
+          if (value >= 1 && value <= 10) {
+            appStorage.patch({ options: { ...options, amazonConcurrency: value } });
+          }
         }}
       />
+      <span className="pb-3 block text-gray-500 text-xs font-normal">
+        Lower this if Amazon keeps asking you to verify you are not a robot during syncs.
+      </span>
+      <MatchSettings />
+      <div className="flex flex-col pb-3">
+        <ToggleSwitch
+          checked={(options.pendingTransactions ?? PendingMode.Annotate) === PendingMode.Annotate}
+          label="Add notes to pending transactions"
+          onChange={value => {
+            appStorage.patch({
+              options: { ...options, pendingTransactions: value ? PendingMode.Annotate : PendingMode.Skip },
+            });
+          }}
+        />
+        <span className="mt-1 text-gray-500 text-xs font-normal">
+          When the bank posts a pending charge it often becomes a new transaction. The note is moved to it on the next
+          sync. Turn this off to wait until transactions have posted.
+        </span>
+      </div>
       <div className="flex flex-col">
         <ToggleSwitch
           checked={options.overrideTransactions}
@@ -68,6 +258,59 @@ export function Options() {
           name if it does not already match.
         </span>
       </div>
+      <div className="flex flex-col pt-3">
+        <ToggleSwitch
+          checked={options.splitTransactions ?? false}
+          label="Split transactions by item"
+          onChange={value => {
+            appStorage.patch({ options: { ...options, splitTransactions: value } });
+          }}
+        />
+        <span className="mt-1 text-gray-500 text-xs font-normal">
+          Transactions with more than one item are split into one Monarch split per item, including its share of tax and
+          shipping, so each item can have its own category. Transactions that are already split are left alone.
+        </span>
+      </div>
+      <div className="flex flex-col pt-3">
+        <Label htmlFor="categoryLearning" value="Learn categories from past transactions?" />
+        <Select
+          id="categoryLearning"
+          className="pt-2"
+          value={options.categoryLearning ?? CategoryLearning.Off}
+          onChange={e => {
+            appStorage.patch({ options: { ...options, categoryLearning: e.target.value as CategoryLearning } });
+          }}>
+          <option value={CategoryLearning.Off}>No</option>
+          <option value={CategoryLearning.Suggest}>Suggest a category in the note</option>
+          <option value={CategoryLearning.Apply}>Set the category</option>
+        </Select>
+        {(options.categoryLearning ?? CategoryLearning.Off) !== CategoryLearning.Off && (
+          <div className="flex flex-row items-center gap-2 pt-2">
+            <span className="w-1/2 text-sm">Only when at least (% confidence)</span>
+            <TextInput
+              className="w-1/2"
+              sizing="sm"
+              type="number"
+              min={0}
+              max={100}
+              defaultValue={Math.round((options.categoryConfidence ?? 0.8) * 100)}
+              onChange={element => {
+                const value = parseInt(element.target.value);
+                if (value >= 0 && value <= 100) {
+                  appStorage.patch({ options: { ...options, categoryConfidence: value / 100 } });
+                }
+              }}
+            />
+          </div>
+        )}
+        <span className="mt-1 text-gray-500 text-xs font-normal">
+          Learns which items you put in which category from the Amazon transactions you have already categorized in
+          Monarch. Everything is learned in the browser. Rules win over learned categories, and a category is only set
+          the first time a transaction gets its note, so changing it in Monarch afterwards sticks and is learned from.
+        </span>
+      </div>
+      <TagSettings />
+      <NoteTemplate />
 
       {logs && logs.length > 0 && (
         <div className="mt-2">
@@ -77,6 +320,23 @@ export function Options() {
         </div>
       )}
 
+      <div className="mt-2 flex flex-col">
+        <span className="text-sm">
+          Cached Amazon orders: {cacheCounts.final} final, {cacheCounts.open} still open
+        </span>
+        <span className="mt-1 text-gray-500 text-xs font-normal">
+          Final orders are fully charged with no refunds in progress and are not downloaded from Amazon again.
+        </span>
+        <div className="flex flex-row gap-2">
+          <button className="btn btn-primary" onClick={downloadOrderCache}>
+            Download order cache
+          </button>
+          <button className="btn btn-primary" onClick={clearOrderCache}>
+            Clear order cache
+          </button>
+        </div>
+      </div>
+
       <div className="mt-2">
         <button className="btn btn-primary" onClick={resetMonarchStatus}>
           Reset Monarch connection status
@@ -2,6 +2,9 @@ import useStorage from '@root/src/shared/hooks/useStorage';
 import Options from './Options';
 import Main from './Main';
 import ManualBackfill from './ManualBackfill';
+import ReviewQueue from './ReviewQueue';
+import Links from './Links';
+import Rules from './Rules';
 import { Navbar } from 'flowbite-react';
 import appStorage, { Page } from '@root/src/shared/storages/appStorage';
 
@@ -13,6 +16,12 @@ const Popup = () => {
     page = <Options />;
   } else if (storage.page === Page.ManualBackfill) {
     page = <ManualBackfill />;
+  } else if (storage.page === Page.Review) {
+    page = <ReviewQueue />;
+  } else if (storage.page === Page.Links) {
+    page = <Links />;
+  } else if (storage.page === Page.Rules) {
+    page = <Rules />;
   } else {
     page = <Main />;
   }
@@ -49,6 +58,27 @@ const Popup = () => {
             }}>
             Manual backfill
           </Navbar.Link>
+          <Navbar.Link
+            active={storage.page == Page.Review}
+            onClick={() => {
+              appStorage.patch({ page: Page.Review });
+            }}>
+            Review
+          </Navbar.Link>
+          <Navbar.Link
+            active={storage.page == Page.Links}
+            onClick={() => {
+              appStorage.patch({ page: Page.Links });
+            }}>
+            Links
+          </Navbar.Link>
+          <Navbar.Link
+            active={storage.page == Page.Rules}
+            onClick={() => {
+              appStorage.patch({ page: Page.Rules });
+            }}>
+            Rules
+          </Navbar.Link>
         </Navbar.Collapse>
       </Navbar>
       {page}
@@ -0,0 +1,100 @@
+import useStorage from '@root/src/shared/hooks/useStorage';
+import appStorage, { Page } from '@root/src/shared/storages/appStorage';
+import progressStorage, { ProgressPhase } from '@root/src/shared/storages/progressStorage';
+import transactionStorage, { storedOrders } from '@root/src/shared/storages/transactionStorage';
+import linkStorage from '@root/src/shared/storages/linkStorage';
+import reviewStorage, { ReviewDecision, matchKey, reviewMatch } from '@root/src/shared/storages/reviewStorage';
+import { matchTransactions, needsReview } from '@root/src/shared/api/matchUtil';
+import { formatMoney, getMarketplace } from '@root/src/shared/api/marketplace';
+import { Action } from '@root/src/shared/types';
+import { Button } from 'flowbite-react';
+import { useCallback, useMemo } from 'react';
+
+export function ReviewQueue() {
+  const appData = useStorage(appStorage);
+  const progress = useStorage(progressStorage);
+  const transactions = useStorage(transactionStorage);
+  const { decisions } = useStorage(reviewStorage);
+  const links = useStorage(linkStorage);
+
+  const marketplace = getMarketplace(appData.options.marketplace);
+
+  // The same matches the last sync made, only the uncertain ones
+  const matches = useMemo(
+    () =>
+      matchTransactions(
+        transactions.transactions,
+        storedOrders(transactions),
+        appData.options.overrideTransactions,
+        appData.options.paymentAccounts,
+        appData.options.matchOptions,
+        links,
+      ).filter(match => needsReview(match, appData.options.matchOptions)),
+    [transactions, appData.options, links],
+  );
+
+  const actionOngoing = progress.phase !== ProgressPhase.Complete && progress.phase !== ProgressPhase.Idle;
+  const approvedCount = matches.filter(match => decisions?.[matchKey(match)] === ReviewDecision.Approved).length;
+
+  const applyApproved = useCallback(async () => {
+    if (actionOngoing || approvedCount === 0) return;
+
+    await appStorage.patch({ page: Page.Default });
+    await chrome.runtime.sendMessage({ action: Action.ApplyReviewed });
+  }, [actionOngoing, approvedCount]);
+
+  if (matches.length === 0) {
+    return <div className="m-3 text-sm text-gray-500">No matches are waiting for review.</div>;
+  }
+
+  return (
+    <div className="m-3 flex flex-col">
+      <span className="pb-2 text-gray-500 text-xs font-normal">
+        These matches are below the confidence set in Options and are not written to Monarch until you approve them.
+      </span>
+      {matches.map(match => {
+        const key = matchKey(match);
+        const decision = decisions?.[key];
+        return (
+          <div key={key} className="flex flex-col border-b py-2 text-xs">
+            <div className="flex flex-row justify-between">
+              <span className="font-semibold">
+                {match.monarch.date} {formatMoney(match.monarch.amount, marketplace)}
+                {match.monarch.account ? ' - ' + match.monarch.account.displayName : ''}
+                {match.monarch.merchantAlias ? ' (' + match.monarch.merchantAlias + ')' : ''}
+              </span>
+              <span>{Math.round(match.confidence * 100)}% confident</span>
+            </div>
+            <span>
+              Amazon {match.amazon.id} on {match.amazon.date}: {match.amazon.items.map(item => item.title).join(', ')}
+            </span>
+            <span className="text-gray-500">{match.reasons.join(', ')}</span>
+            <div className="flex flex-row gap-2 pt-1">
+              <Button
+                size="xs"
+                color={decision === ReviewDecision.Approved ? 'success' : 'light'}
+                onClick={() =>
+                  reviewMatch(match, decision === ReviewDecision.Approved ? undefined : ReviewDecision.Approved)
+                }>
+                Approve
+              </Button>
+              <Button
+                size="xs"
+                color={decision === ReviewDecision.Rejected ? 'failure' : 'light'}
+                onClick={() =>
+                  reviewMatch(match, decision === ReviewDecision.Rejected ? undefined : ReviewDecision.Rejected)
+                }>
+                Reject
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+      <Button className="mt-3" color="cyan" disabled={actionOngoing || approvedCount === 0} onClick={applyApproved}>
+        Write {approvedCount} approved {approvedCount === 1 ? 'match' : 'matches'} to Monarch
+      </Button>
+    </div>
+  );
+}
+
+export default ReviewQueue;
@@ -0,0 +1,100 @@
+import useStorage from '@root/src/shared/hooks/useStorage';
+import appStorage from '@root/src/shared/storages/appStorage';
+import transactionStorage, { storedOrders } from '@root/src/shared/storages/transactionStorage';
+import linkStorage from '@root/src/shared/storages/linkStorage';
+import ruleStorage, { saveRule } from '@root/src/shared/storages/ruleStorage';
+import { Category, Tag, getCategories, getTags } from '@root/src/shared/api/monarchApi';
+import { matchTransactions } from '@root/src/shared/api/matchUtil';
+import { applyRules } from '@root/src/shared/api/ruleUtil';
+import { formatMoney, getMarketplace } from '@root/src/shared/api/marketplace';
+import { Button } from 'flowbite-react';
+import { useEffect, useMemo, useState } from 'react';
+import RuleEditor from './components/RuleEditor';
+
+// Set the category, tags, review status or a note prefix of transactions based on what was bought
+export function Rules() {
+  const appData = useStorage(appStorage);
+  const transactions = useStorage(transactionStorage);
+  const links = useStorage(linkStorage);
+  const { rules } = useStorage(ruleStorage);
+
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+
+  useEffect(() => {
+    if (!appData.monarchKey) return;
+    getCategories(appData.monarchKey)
+      .then(categories => setCategories([...categories].sort((a, b) => a.name.localeCompare(b.name))))
+      .catch(() => setCategories([]));
+    getTags(appData.monarchKey)
+      .then(setTags)
+      .catch(() => setTags([]));
+  }, [appData.monarchKey]);
+
+  const marketplace = getMarketplace(appData.options.marketplace);
+
+  // Dry run: which rules would fire for the matches of the last sync
+  const preview = useMemo(() => {
+    const orders = storedOrders(transactions);
+    const orderDates = new Map(orders.map(order => [order.id, order.date]));
+    return matchTransactions(
+      transactions.transactions,
+      orders,
+      appData.options.overrideTransactions,
+      appData.options.paymentAccounts,
+      appData.options.matchOptions,
+      links,
+    )
+      .map(match => ({ match, result: applyRules(rules ?? [], match.amazon, orderDates.get(match.amazon.id)) }))
+      .filter(({ result }) => result.rules.length > 0);
+  }, [transactions, appData.options, links, rules]);
+
+  const categoryName = (id: string | undefined) => categories.find(category => category.id === id)?.name ?? id;
+  const tagNames = (ids: string[]) => ids.map(id => tags.find(tag => tag.id === id)?.name ?? id).join(', ');
+
+  return (
+    <div className="m-3 flex flex-col">
+      <span className="pb-2 text-gray-500 text-xs font-normal">
+        Rules run in order when notes are written to Monarch. The first rule with a category or review status wins, tags
+        and note prefixes of every rule are combined.
+      </span>
+      {(rules ?? []).map(rule => (
+        <RuleEditor key={rule.id} rule={rule} categories={categories} tags={tags} />
+      ))}
+      <Button
+        className="mt-2"
+        size="sm"
+        color="light"
+        onClick={() => saveRule({ id: crypto.randomUUID(), name: '', enabled: true, conditions: [], actions: {} })}>
+        Add rule
+      </Button>
+
+      <span className="pt-4 pb-1 text-sm font-semibold">Preview</span>
+      {preview.length === 0 ? (
+        <span className="text-gray-500 text-xs">No rules fire for the transactions of the last sync.</span>
+      ) : (
+        preview.map(({ match, result }) => (
+          <div key={match.monarch.id + match.amazon.id} className="flex flex-col border-b py-1 text-xs">
+            <span className="font-semibold">
+              {match.monarch.date} {formatMoney(match.monarch.amount, marketplace)} -{' '}
+              {match.amazon.items.map(item => item.title).join(', ')}
+            </span>
+            <span>Rules: {result.rules.map(rule => rule.name || 'Unnamed rule').join(', ')}</span>
+            <span className="text-gray-500">
+              {[
+                result.categoryId ? 'Category ' + categoryName(result.categoryId) : undefined,
+                result.tagIds.length > 0 ? 'Tags ' + tagNames(result.tagIds) : undefined,
+                result.needsReview !== undefined ? (result.needsReview ? 'Needs review' : 'Reviewed') : undefined,
+                result.notePrefix ? 'Note starts with "' + result.notePrefix + '"' : undefined,
+              ]
+                .filter(Boolean)
+                .join(' - ')}
+            </span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default Rules;
@@ -0,0 +1,74 @@
+import useStorage from '@root/src/shared/hooks/useStorage';
+import { getMarketplace } from '@root/src/shared/api/marketplace';
+import appStorage from '@root/src/shared/storages/appStorage';
+import transactionStorage, { removeProfileOrders } from '@root/src/shared/storages/transactionStorage';
+import { Label, TextInput } from 'flowbite-react';
+
+// The Amazon logins synced into this Monarch household. Renaming changes the "Amazon account" line in notes.
+export default function AmazonProfiles({ editable }: { editable?: boolean }) {
+  const { amazonProfiles, activeAmazonProfile, options } = useStorage(appStorage);
+  const { profileOrders } = useStorage(transactionStorage);
+  const profiles = amazonProfiles ?? [];
+
+  const signInAnother = () => {
+    // Signing out lets the next login be a different account, its orders are kept apart from the others
+    chrome.tabs.create({ url: getMarketplace(options.marketplace).baseUrl + '/gp/flex/sign-out.html' });
+  };
+
+  const rename = (id: string, label: string) => {
+    appStorage.patch({
+      amazonProfiles: profiles.map(profile => (profile.id === id ? { ...profile, label } : profile)),
+    });
+  };
+
+  const remove = async (id: string) => {
+    await removeProfileOrders(id);
+    await appStorage.patch({
+      amazonProfiles: profiles.filter(profile => profile.id !== id),
+      activeAmazonProfile: activeAmazonProfile === id ? undefined : activeAmazonProfile,
+    });
+  };
+
+  return (
+    <div className="flex flex-col pb-3">
+      <div className="mb-1 block">
+        <Label value="Amazon accounts" />
+      </div>
+      {profiles.length === 0 && <span className="text-gray-500 text-xs">No Amazon account has been synced yet.</span>}
+      {profiles.map(profile => (
+        <div key={profile.id} className="flex flex-row items-center gap-2 pb-1 text-xs">
+          {editable ? (
+            <TextInput
+              sizing="sm"
+              className="w-1/3"
+              defaultValue={profile.label}
+              onChange={element => rename(profile.id, element.target.value)}
+            />
+          ) : (
+            <span className="text-sm">{profile.label}</span>
+          )}
+          {profile.id === activeAmazonProfile && <span className="text-green-600">signed in</span>}
+          <span className="text-gray-500">
+            {profileOrders?.[profile.id]?.length ?? 0} orders, last sync{' '}
+            {profile.lastSync ? new Date(profile.lastSync).toLocaleString() : 'never'}
+          </span>
+          {editable && (
+            <button className="btn btn-primary ml-auto" onClick={() => remove(profile.id)}>
+              Remove
+            </button>
+          )}
+        </div>
+      ))}
+      {!editable && (
+        <button className="btn btn-primary self-start text-xs underline" onClick={signInAnother}>
+          Sign in with another Amazon account
+        </button>
+      )}
+      {editable && (
+        <span className="mt-1 text-gray-500 text-xs font-normal">
+          Removing an account forgets the orders synced from it.
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import useStorage from '@root/src/shared/hooks/useStorage';
+import { DEFAULT_MATCH_OPTIONS, MatchOptions } from '@root/src/shared/api/matchUtil';
+import appStorage from '@root/src/shared/storages/appStorage';
+import { Label, TextInput, ToggleSwitch } from 'flowbite-react';
+
+export default function MatchSettings() {
+  const { options } = useStorage(appStorage);
+  const matchOptions = { ...DEFAULT_MATCH_OPTIONS, ...(options.matchOptions ?? {}) };
+
+  const update = (patch: Partial<MatchOptions>) => {
+    appStorage.patch({ options: { ...options, matchOptions: { ...matchOptions, ...patch } } });
+  };
+
+  return (
+    <div className="flex flex-col pb-3">
+      <div className="mb-2 block">
+        <Label value="How close do Amazon charges and Monarch transactions need to be?" />
+      </div>
+      <div className="flex flex-row items-center gap-2 pb-1">
+        <span className="w-1/2 text-sm">Days apart</span>
+        <TextInput
+          className="w-1/2"
+          sizing="sm"
+          type="number"
+          min={0}
+          max={60}
+          defaultValue={matchOptions.windowDays}
+          onChange={element => {
+            const value = parseInt(element.target.value);
+            if (value >= 0 && value <= 60) update({ windowDays: value });
+          }}
+        />
+      </div>
+      <div className="flex flex-row items-center gap-2 pb-1">
+        <span className="w-1/2 text-sm">Amount difference</span>
+        <TextInput
+          className="w-1/2"
+          sizing="sm"
+          type="number"
+          min={0}
+          step={0.01}
+          defaultValue={matchOptions.amountTolerance}
+          onChange={element => {
+            const value = parseFloat(element.target.value);
+            if (value >= 0) update({ amountTolerance: value });
+          }}
+        />
+      </div>
+      <div className="flex flex-row items-center gap-2 pb-1">
+        <span className="w-1/2 text-sm">Amount difference (%)</span>
+        <TextInput
+          className="w-1/2"
+          sizing="sm"
+          type="number"
+          min={0}
+          max={100}
+          step={0.1}
+          defaultValue={matchOptions.amountTolerancePercent}
+          onChange={element => {
+            const value = parseFloat(element.target.value);
+            if (value >= 0 && value <= 100) update({ amountTolerancePercent: value });
+          }}
+        />
+      </div>
+      <div className="flex flex-row items-center gap-2 pb-1">
+        <span className="w-1/2 text-sm">Review matches below (% confidence)</span>
+        <TextInput
+          className="w-1/2"
+          sizing="sm"
+          type="number"
+          min={0}
+          max={100}
+          defaultValue={Math.round(matchOptions.confidenceThreshold * 100)}
+          onChange={element => {
+            const value = parseInt(element.target.value);
+            if (value >= 0 && value <= 100) update({ confidenceThreshold: value / 100 });
+          }}
+        />
+      </div>
+      <ToggleSwitch
+        checked={matchOptions.chargeAfterOrderOnly}
+        label="Only match transactions on or after the Amazon charge"
+        onChange={value => update({ chargeAfterOrderOnly: value })}
+      />
+      <span className="mt-1 text-gray-500 text-xs font-normal">
+        Widen the days for items that are charged long after they ship. A small amount difference allows for cents of
+        rounding, the larger of the two amounts is used. Matches below the confidence are only written once you approve
+        them in Review.
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import useStorage from '@root/src/shared/hooks/useStorage';
+import { Merchant, MerchantAlias, getMerchants } from '@root/src/shared/api/monarchApi';
+import appStorage, { merchantAliases } from '@root/src/shared/storages/appStorage';
+import { Button, Label, Select, TextInput } from 'flowbite-react';
+import { useEffect, useState } from 'react';
+
+// Monarch merchants that are probably Amazon, offered as suggestions
+const SUGGESTION_SEARCHES = ['Amazon', 'AMZN', 'Prime Video', 'Audible', 'Kindle'];
+
+export default function MerchantAliases() {
+  const { options, monarchKey } = useStorage(appStorage);
+  const aliases = merchantAliases(options);
+
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (!monarchKey) return;
+    Promise.all(SUGGESTION_SEARCHES.map(search => getMerchants(monarchKey, search)))
+      .then(results => {
+        const byId = new Map(results.flat().map(merchant => [merchant.id, merchant]));
+        setMerchants([...byId.values()].sort((a, b) => b.transactionCount - a.transactionCount));
+      })
+      .catch(() => setMerchants([]));
+  }, [monarchKey]);
+
+  const save = (merchants: MerchantAlias[]) => {
+    appStorage.patch({ options: { ...options, merchants } });
+  };
+
+  const add = (alias: MerchantAlias) => {
+    if (!alias.name.trim() || aliases.some(existing => (existing.id ?? existing.name) === (alias.id ?? alias.name))) {
+      return;
+    }
+    save(aliases.concat([{ ...alias, name: alias.name.trim() }]));
+  };
+
+  const suggestions = merchants.filter(merchant => !aliases.some(alias => alias.id === merchant.id));
+
+  return (
+    <div className="flex flex-col pb-3">
+      <div className="mb-2 block">
+        <Label value="What merchants is Amazon in Monarch?" />
+      </div>
+      {aliases.map(alias => (
+        <div key={alias.id ?? alias.name} className="flex flex-row items-center justify-between pb-1 text-sm">
+          <span>
+            {alias.name}
+            {!alias.id && <span className="text-gray-500 text-xs"> (search)</span>}
+          </span>
+          <Button
+            size="xs"
+            color="light"
+            disabled={aliases.length === 1}
+            onClick={() => save(aliases.filter(existing => existing !== alias))}>
+            Remove
+          </Button>
+        </div>
+      ))}
+      {suggestions.length > 0 && (
+        <Select
+          sizing="sm"
+          className="pt-1"
+          value=""
+          onChange={e => {
+            const merchant = merchants.find(merchant => merchant.id === e.target.value);
+            if (merchant) add({ id: merchant.id, name: merchant.name });
+          }}>
+          <option value="">Add a Monarch merchant...</option>
+          {suggestions.map(merchant => (
+            <option key={merchant.id} value={merchant.id}>
+              {merchant.name} ({merchant.transactionCount} transactions)
+            </option>
+          ))}
+        </Select>
+      )}
+      <div className="flex flex-row gap-2 pt-1">
+        <TextInput
+          sizing="sm"
+          className="flex-grow"
+          placeholder="Or search for a name"
+          value={name}
+          onChange={element => setName(element.target.value)}
+        />
+        <Button
+          size="xs"
+          color="light"
+          onClick={() => {
+            add({ name });
+            setName('');
+          }}>
+          Add
+        </Button>
+      </div>
+      <span className="mt-1 text-gray-500 text-xs font-normal">
+        Transactions of every merchant are matched together. A name is searched for, so it can also find other merchants
+        containing it.
+      </span>
+    </div>
+  );
+}
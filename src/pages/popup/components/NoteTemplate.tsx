@@ -0,0 +1,96 @@
+import useStorage from '@root/src/shared/hooks/useStorage';
+import { getMarketplace } from '@root/src/shared/api/marketplace';
+import { transactionNote } from '@root/src/shared/api/noteUtil';
+import { EXAMPLE_TEMPLATE, TEMPLATE_PLACEHOLDERS, parseTemplate } from '@root/src/shared/api/templateUtil';
+import appStorage from '@root/src/shared/storages/appStorage';
+import transactionStorage, { storedOrders } from '@root/src/shared/storages/transactionStorage';
+import { Button, Label, Textarea } from 'flowbite-react';
+import { useMemo, useState } from 'react';
+
+const PREVIEW_COUNT = 3;
+
+export default function NoteTemplate() {
+  const { options, amazonProfiles } = useStorage(appStorage);
+  const transactions = useStorage(transactionStorage);
+  const [template, setTemplate] = useState(options.noteTemplate ?? '');
+
+  const save = (noteTemplate: string) => {
+    setTemplate(noteTemplate);
+    appStorage.patch({ options: { ...options, noteTemplate } });
+  };
+
+  const error = useMemo(() => {
+    try {
+      parseTemplate(template);
+      return undefined;
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e);
+    }
+  }, [template]);
+
+  // The notes the newest charges of the last sync would get
+  const previews = useMemo(() => {
+    const marketplace = getMarketplace(options.marketplace);
+    return storedOrders(transactions)
+      .flatMap(order => (order.transactions ?? []).map(transaction => ({ order, transaction })))
+      .filter(({ transaction }) => transaction.items.length > 0)
+      .sort((a, b) => b.transaction.date.localeCompare(a.transaction.date))
+      .slice(0, PREVIEW_COUNT)
+      .map(({ order, transaction }) => ({
+        key: transaction.id + transaction.date + transaction.amount,
+        note: transactionNote(transaction, marketplace, {
+          template,
+          profile: (amazonProfiles ?? []).length > 1 ? transaction.profile : undefined,
+          orderDate: order.date,
+          originalDate: transaction.originalDate,
+        }),
+      }));
+  }, [transactions, options.marketplace, amazonProfiles, template]);
+
+  return (
+    <div className="flex flex-col pt-3">
+      <div className="mb-2 block">
+        <Label htmlFor="noteTemplate" value="How should notes look?" />
+      </div>
+      <Textarea
+        id="noteTemplate"
+        rows={5}
+        className="font-mono text-xs"
+        placeholder="Leave empty for the default note"
+        value={template}
+        onChange={element => save(element.target.value)}
+      />
+      {error && <span className="mt-1 text-red-500 text-xs">{error}, the default note is used.</span>}
+      <div className="flex flex-row gap-2 pt-1">
+        <Button size="xs" color="light" onClick={() => save(EXAMPLE_TEMPLATE)}>
+          Start from an example
+        </Button>
+        <Button size="xs" color="light" disabled={!template} onClick={() => save('')}>
+          Use the default note
+        </Button>
+      </div>
+      <span className="mt-1 text-gray-500 text-xs font-normal">
+        Write {'{{name}}'} for a value or {'{{name:40}}'} to cut it to 40 characters. {'{{#items}}...{{/items}}'}{' '}
+        repeats for every item, {'{{#refund}}...{{/refund}}'} is only for refunds and {'{{^refund}}...{{/refund}}'} only
+        for purchases.
+      </span>
+      <ul className="mt-1 text-gray-500 text-xs font-normal">
+        {TEMPLATE_PLACEHOLDERS.map(placeholder => (
+          <li key={placeholder.name}>
+            <span className="font-mono">{placeholder.name}</span> - {placeholder.description}
+          </li>
+        ))}
+      </ul>
+      {previews.length > 0 && (
+        <div className="flex flex-col pt-2">
+          <span className="text-sm">Preview</span>
+          {previews.map(preview => (
+            <pre key={preview.key} className="mt-1 whitespace-pre-wrap border p-1 text-xs">
+              {preview.note}
+            </pre>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
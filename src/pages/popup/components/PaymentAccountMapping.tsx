@@ -0,0 +1,78 @@
+import useStorage from '@root/src/shared/hooks/useStorage';
+import { Account, getAccounts } from '@root/src/shared/api/monarchApi';
+import { paymentMethodKey } from '@root/src/shared/api/paymentMethod';
+import appStorage from '@root/src/shared/storages/appStorage';
+import orderCacheStorage from '@root/src/shared/storages/orderCacheStorage';
+import transactionStorage, { storedOrders } from '@root/src/shared/storages/transactionStorage';
+import { Label, Select } from 'flowbite-react';
+import { useEffect, useMemo, useState } from 'react';
+
+export default function PaymentAccountMapping() {
+  const { options, monarchKey } = useStorage(appStorage);
+  const { profileOrders } = useStorage(transactionStorage);
+  const orders = useMemo(() => storedOrders({ profileOrders }), [profileOrders]);
+  const { orders: cachedOrders } = useStorage(orderCacheStorage);
+
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useEffect(() => {
+    if (!monarchKey) return;
+    getAccounts(monarchKey)
+      .then(setAccounts)
+      .catch(() => setAccounts([]));
+  }, [monarchKey]);
+
+  // Every payment method seen in the last sync or in the order cache
+  const paymentMethods = useMemo(() => {
+    const keys = new Set<string>(Object.keys(options.paymentAccounts ?? {}));
+    const allOrders = orders.concat(Object.values(cachedOrders ?? {}).map(cached => cached.order));
+    for (const order of allOrders) {
+      for (const transaction of order.transactions ?? []) {
+        const key = paymentMethodKey(transaction.paymentMethod);
+        if (key) keys.add(key);
+      }
+    }
+    return [...keys].sort();
+  }, [orders, cachedOrders, options.paymentAccounts]);
+
+  if (paymentMethods.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col pb-3">
+      <div className="mb-2 block">
+        <Label value="Which Monarch account is each payment method?" />
+      </div>
+      {paymentMethods.map(method => (
+        <div key={method} className="flex flex-row items-center pb-1">
+          <span className="w-1/3 text-sm">{method}</span>
+          <Select
+            className="w-2/3"
+            sizing="sm"
+            value={options.paymentAccounts?.[method] ?? ''}
+            onChange={e => {
+              const paymentAccounts = { ...(options.paymentAccounts ?? {}) };
+              if (e.target.value) {
+                paymentAccounts[method] = e.target.value;
+              } else {
+                delete paymentAccounts[method];
+              }
+              appStorage.patch({ options: { ...options, paymentAccounts } });
+            }}>
+            <option value="">Any account</option>
+            {accounts.map(account => (
+              <option key={account.id} value={account.id}>
+                {account.displayName}
+                {account.mask ? ` (${account.mask})` : ''}
+              </option>
+            ))}
+          </Select>
+        </div>
+      ))}
+      <span className="mt-1 text-gray-500 text-xs font-normal">
+        Charges are only matched to transactions in the chosen account. Payment methods show up here after a sync.
+      </span>
+    </div>
+  );
+}
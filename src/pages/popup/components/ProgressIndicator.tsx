@@ -1,5 +1,5 @@
 import useStorage from '@root/src/shared/hooks/useStorage';
-import appStorage, { mapFailureReasonToMessage } from '@root/src/shared/storages/appStorage';
+import appStorage, { Page, mapFailureReasonToMessage } from '@root/src/shared/storages/appStorage';
 import { ProgressPhase, ProgressState } from '@root/src/shared/storages/progressStorage';
 import { Button, Progress, Spinner } from 'flowbite-react';
 import { useCallback } from 'react';
@@ -7,8 +7,12 @@ import { FaTimesCircle } from 'react-icons/fa';
 import { LuCircleSlash } from 'react-icons/lu';
 import { RiCheckboxCircleFill } from 'react-icons/ri';
 import { stringify } from 'csv-stringify/browser/esm/sync';
-import transactionStorage from '@root/src/shared/storages/transactionStorage';
+import transactionStorage, { storedOrders } from '@root/src/shared/storages/transactionStorage';
+import linkStorage from '@root/src/shared/storages/linkStorage';
 import { matchTransactions } from '@root/src/shared/api/matchUtil';
+import { paymentMethodKey } from '@root/src/shared/api/paymentMethod';
+import { getMarketplace } from '@root/src/shared/api/marketplace';
+import { transactionNote } from '@root/src/shared/api/noteUtil';
 
 export function ProgressIndicator({ progress }: { progress: ProgressState }) {
   const { lastSync } = useStorage(appStorage);
@@ -23,11 +27,17 @@ export function ProgressIndicator({ progress }: { progress: ProgressState }) {
       return;
     }
 
+    const orders = storedOrders(transactions);
     const matches = matchTransactions(
       transactions.transactions,
-      transactions.orders,
+      orders,
       appData.options.overrideTransactions,
+      appData.options.paymentAccounts,
+      appData.options.matchOptions,
+      await linkStorage.get(),
     );
+    const marketplace = getMarketplace(appData.options.marketplace);
+    const orderDates = new Map(orders.map(order => [order.id, order.date]));
     const contents = matches.map(match => {
       return {
         amazonOrderId: match.amazon.id,
@@ -36,6 +46,25 @@ export function ProgressIndicator({ progress }: { progress: ProgressState }) {
         monarchAmount: match.monarch.amount,
         amazonAmount: match.amazon.amount,
         refund: match.amazon.refund,
+        originalMonarchId: match.original?.id,
+        originalDate: match.original?.date ?? match.amazon.originalDate,
+        paymentMethod: paymentMethodKey(match.amazon.paymentMethod),
+        monarchAccount: match.monarch.account?.displayName,
+        merchantAlias: match.monarch.merchantAlias,
+        pending: match.monarch.pending ?? false,
+        amazonAccount: match.amazon.profile,
+        combinedCharges: match.combined?.map(part => `${part.id} ${part.date} ${part.amount}`).join('; '),
+        confidence: match.confidence,
+        reasons: match.reasons.join('; '),
+        splitWithMonarchIds: match.splitWith?.map(transaction => transaction.id).join('; '),
+        asins: match.amazon.items.map(item => item.asin ?? '').join('; '),
+        quantities: match.amazon.items.map(item => item.quantity ?? 1).join('; '),
+        sellers: match.amazon.items.map(item => item.seller ?? '').join('; '),
+        note: transactionNote(match.amazon, marketplace, {
+          template: appData.options.noteTemplate,
+          orderDate: orderDates.get(match.amazon.id),
+          originalDate: match.original?.date ?? match.amazon.originalDate,
+        }),
         items: match.amazon.items,
       };
     });
@@ -71,6 +100,7 @@ export function ProgressIndicator({ progress }: { progress: ProgressState }) {
           ) : (
             <span className="text-small">Updated Transactions: {lastSync.transactionsUpdated}</span>
           )}
+          <PendingReview count={lastSync.pendingReview} />
         </div>
       ) : lastSync?.success && lastSync?.transactionsUpdated == 0 ? (
         <div className="flex flex-col items-center">
@@ -79,6 +109,7 @@ export function ProgressIndicator({ progress }: { progress: ProgressState }) {
           <span className="text-small">Amazon orders: {lastSync.amazonOrders}</span>
           <span className="text-small">Monarch transactions: {lastSync.monarchTransactions}</span>
           <span className="text-small">No transactions to update</span>
+          <PendingReview count={lastSync.pendingReview} />
         </div>
       ) : lastSync?.success === false ? (
         <div className="flex flex-col items-center">
@@ -94,6 +125,17 @@ export function ProgressIndicator({ progress }: { progress: ProgressState }) {
   );
 }
 
+function PendingReview({ count }: { count: number | undefined }) {
+  if (!count) {
+    return null;
+  }
+  return (
+    <Button size="xs" outline color="yellow" onClick={() => appStorage.patch({ page: Page.Review })}>
+      Review {count} uncertain {count === 1 ? 'match' : 'matches'}
+    </Button>
+  );
+}
+
 function ProgressSpinner({ progress }: { progress: ProgressState }) {
   const percent = Math.ceil((100 * progress.complete) / progress.total);
   let phase = null;
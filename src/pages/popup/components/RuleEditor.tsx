@@ -0,0 +1,194 @@
+import { Category, Tag } from '@root/src/shared/api/monarchApi';
+import { RULE_OPERATORS, Rule, RuleCondition, RuleField, RuleOperator } from '@root/src/shared/api/ruleUtil';
+import { moveRule, removeRule, saveRule } from '@root/src/shared/storages/ruleStorage';
+import { Button, Select, TextInput, ToggleSwitch } from 'flowbite-react';
+
+const FIELD_LABELS: Record<RuleField, string> = {
+  [RuleField.Title]: 'Item title',
+  [RuleField.Seller]: 'Seller',
+  [RuleField.Amount]: 'Amount',
+  [RuleField.OrderDate]: 'Order date',
+  [RuleField.Refund]: 'Refund',
+};
+
+const OPERATOR_LABELS: Record<RuleOperator, string> = {
+  [RuleOperator.Contains]: 'contains',
+  [RuleOperator.Equals]: 'is',
+  [RuleOperator.GreaterThan]: 'is over',
+  [RuleOperator.LessThan]: 'is under',
+};
+
+const VALUE_PLACEHOLDERS: Record<RuleField, string> = {
+  [RuleField.Title]: 'diapers',
+  [RuleField.Seller]: 'Amazon.com',
+  [RuleField.Amount]: '25.00',
+  [RuleField.OrderDate]: 'YYYY-MM-DD',
+  [RuleField.Refund]: '',
+};
+
+type Props = {
+  rule: Rule;
+  categories: Category[];
+  tags: Tag[];
+};
+
+export default function RuleEditor({ rule, categories, tags }: Props) {
+  const save = (changes: Partial<Rule>) => saveRule({ ...rule, ...changes });
+  const saveCondition = (index: number, condition: RuleCondition) =>
+    save({ conditions: rule.conditions.map((existing, i) => (i === index ? condition : existing)) });
+  const saveActions = (actions: Partial<Rule['actions']>) => save({ actions: { ...rule.actions, ...actions } });
+
+  const ruleTags = tags.filter(tag => rule.actions.tagIds?.includes(tag.id));
+
+  return (
+    <div className="flex flex-col border-b py-2 text-xs">
+      <div className="flex flex-row items-center gap-2">
+        <TextInput
+          sizing="sm"
+          className="flex-grow"
+          defaultValue={rule.name}
+          placeholder="Rule name"
+          onChange={element => save({ name: element.target.value })}
+        />
+        <ToggleSwitch checked={rule.enabled} label="" onChange={enabled => save({ enabled })} />
+      </div>
+
+      <span className="pt-2 font-semibold">When</span>
+      {rule.conditions.map((condition, index) => (
+        // Removing a condition shifts the ones after it, so all rows start over with their new values
+        <div key={rule.conditions.length + ':' + index} className="flex flex-row items-center gap-1 pt-1">
+          <Select
+            sizing="sm"
+            value={condition.field}
+            onChange={e => {
+              const field = e.target.value as RuleField;
+              saveCondition(index, {
+                field,
+                operator: RULE_OPERATORS[field][0],
+                value: field === RuleField.Refund ? 'true' : '',
+              });
+            }}>
+            {Object.values(RuleField).map(field => (
+              <option key={field} value={field}>
+                {FIELD_LABELS[field]}
+              </option>
+            ))}
+          </Select>
+          <Select
+            sizing="sm"
+            value={condition.operator}
+            onChange={e => saveCondition(index, { ...condition, operator: e.target.value as RuleOperator })}>
+            {RULE_OPERATORS[condition.field].map(operator => (
+              <option key={operator} value={operator}>
+                {OPERATOR_LABELS[operator]}
+              </option>
+            ))}
+          </Select>
+          {condition.field === RuleField.Refund ? (
+            <Select
+              sizing="sm"
+              className="flex-grow"
+              value={condition.value}
+              onChange={e => saveCondition(index, { ...condition, value: e.target.value })}>
+              <option value="true">Yes</option>
+              <option value="false">No</option>
+            </Select>
+          ) : (
+            <TextInput
+              key={condition.field}
+              sizing="sm"
+              className="flex-grow"
+              defaultValue={condition.value}
+              placeholder={VALUE_PLACEHOLDERS[condition.field]}
+              onChange={element => saveCondition(index, { ...condition, value: element.target.value })}
+            />
+          )}
+          <Button
+            size="xs"
+            color="light"
+            onClick={() => save({ conditions: rule.conditions.filter((_, i) => i !== index) })}>
+            x
+          </Button>
+        </div>
+      ))}
+      <Button
+        size="xs"
+        color="light"
+        className="mt-1 self-start"
+        onClick={() =>
+          save({
+            conditions: rule.conditions.concat([
+              { field: RuleField.Title, operator: RULE_OPERATORS[RuleField.Title][0], value: '' },
+            ]),
+          })
+        }>
+        Add condition
+      </Button>
+
+      <span className="pt-2 font-semibold">Then</span>
+      <Select
+        sizing="sm"
+        className="pt-1"
+        value={rule.actions.categoryId ?? ''}
+        onChange={e => saveActions({ categoryId: e.target.value || undefined })}>
+        <option value="">Keep the category</option>
+        {categories.map(category => (
+          <option key={category.id} value={category.id}>
+            Category {category.name}
+          </option>
+        ))}
+      </Select>
+      <Select
+        sizing="sm"
+        className="pt-1"
+        value=""
+        onChange={e => {
+          if (e.target.value) saveActions({ tagIds: (rule.actions.tagIds ?? []).concat([e.target.value]) });
+        }}>
+        <option value="">
+          {ruleTags.length > 0 ? 'Tags ' + ruleTags.map(tag => tag.name).join(', ') : 'Add a tag...'}
+        </option>
+        {tags
+          .filter(tag => !rule.actions.tagIds?.includes(tag.id))
+          .map(tag => (
+            <option key={tag.id} value={tag.id}>
+              Tag {tag.name}
+            </option>
+          ))}
+      </Select>
+      {ruleTags.length > 0 && (
+        <Button size="xs" color="light" className="mt-1 self-start" onClick={() => saveActions({ tagIds: [] })}>
+          Clear tags
+        </Button>
+      )}
+      <Select
+        sizing="sm"
+        className="pt-1"
+        value={rule.actions.needsReview === undefined ? '' : String(rule.actions.needsReview)}
+        onChange={e => saveActions({ needsReview: e.target.value ? e.target.value === 'true' : undefined })}>
+        <option value="">Keep the review status</option>
+        <option value="false">Mark as reviewed</option>
+        <option value="true">Mark as needs review</option>
+      </Select>
+      <TextInput
+        sizing="sm"
+        className="pt-1"
+        defaultValue={rule.actions.notePrefix ?? ''}
+        placeholder="Start the note with..."
+        onChange={element => saveActions({ notePrefix: element.target.value || undefined })}
+      />
+
+      <div className="flex flex-row gap-2 pt-2">
+        <Button size="xs" color="light" onClick={() => moveRule(rule.id, -1)}>
+          Up
+        </Button>
+        <Button size="xs" color="light" onClick={() => moveRule(rule.id, 1)}>
+          Down
+        </Button>
+        <Button size="xs" color="failure" onClick={() => removeRule(rule.id)}>
+          Delete
+        </Button>
+      </div>
+    </div>
+  );
+}
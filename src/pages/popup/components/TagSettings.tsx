@@ -0,0 +1,45 @@
+import useStorage from '@root/src/shared/hooks/useStorage';
+import appStorage, { DEFAULT_SYNC_TAGS, SyncTags } from '@root/src/shared/storages/appStorage';
+import { TextInput, ToggleSwitch } from 'flowbite-react';
+
+const TAG_LABELS: { key: keyof Omit<SyncTags, 'enabled'>; label: string }[] = [
+  { key: 'synced', label: 'Every synced transaction' },
+  { key: 'refund', label: 'Refunds' },
+  { key: 'lowConfidence', label: 'Matches that needed review' },
+];
+
+export default function TagSettings() {
+  const { options } = useStorage(appStorage);
+  const syncTags = { ...DEFAULT_SYNC_TAGS, ...(options.syncTags ?? {}) };
+
+  const update = (patch: Partial<SyncTags>) => {
+    appStorage.patch({ options: { ...options, syncTags: { ...syncTags, ...patch } } });
+  };
+
+  return (
+    <div className="flex flex-col pt-3">
+      <ToggleSwitch
+        checked={syncTags.enabled}
+        label="Tag synced transactions"
+        onChange={enabled => update({ enabled })}
+      />
+      {syncTags.enabled &&
+        TAG_LABELS.map(({ key, label }) => (
+          <div key={key} className="flex flex-row items-center gap-2 pt-2">
+            <span className="w-1/2 text-sm">{label}</span>
+            <TextInput
+              className="w-1/2"
+              sizing="sm"
+              defaultValue={syncTags[key]}
+              placeholder="No tag"
+              onChange={element => update({ [key]: element.target.value })}
+            />
+          </div>
+        ))}
+      <span className="mt-1 text-gray-500 text-xs font-normal">
+        Adds these Monarch tags to the transactions a sync writes to, so you can filter and report on them in Monarch.
+        Tags that don&apos;t exist yet are created. Leave a name empty to skip that tag.
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import useStorage from '@root/src/shared/hooks/useStorage';
+import appStorage from '@root/src/shared/storages/appStorage';
+import transactionStorage from '@root/src/shared/storages/transactionStorage';
+import { UnmatchedSide } from '@root/src/shared/api/matchUtil';
+import { formatMoney, getMarketplace } from '@root/src/shared/api/marketplace';
+import { stringify } from 'csv-stringify/browser/esm/sync';
+import { Button } from 'flowbite-react';
+import { useCallback, useState } from 'react';
+
+export default function UnmatchedReport() {
+  const { options } = useStorage(appStorage);
+  const { unmatched } = useStorage(transactionStorage);
+  const [expanded, setExpanded] = useState(false);
+
+  const download = useCallback(() => {
+    const blob = new Blob([stringify(unmatched ?? [], { header: true })], { type: 'text/csv' });
+    chrome.downloads.download({
+      url: URL.createObjectURL(blob),
+      filename: 'monarch-amazon-unmatched.csv',
+    });
+  }, [unmatched]);
+
+  if (!unmatched || unmatched.length === 0) {
+    return null;
+  }
+
+  const marketplace = getMarketplace(options.marketplace);
+  const monarchCount = unmatched.filter(entry => entry.side === UnmatchedSide.Monarch).length;
+  const amazonCount = unmatched.length - monarchCount;
+
+  return (
+    <div className="flex flex-col mx-3 text-xs">
+      <div className="flex flex-row items-center justify-between">
+        <button className="text-left underline" onClick={() => setExpanded(!expanded)}>
+          Unmatched: {monarchCount} Monarch transactions, {amazonCount} Amazon charges
+        </button>
+        <Button size="xs" outline color="gray" onClick={download}>
+          Download CSV
+        </Button>
+      </div>
+      {expanded && (
+        <div className="flex flex-col max-h-48 overflow-y-auto pt-1">
+          {unmatched.map(entry => (
+            <div key={entry.side + entry.id + entry.date + entry.amount} className="flex flex-col border-b py-1">
+              <span>
+                {entry.side === UnmatchedSide.Monarch ? 'Monarch' : 'Amazon ' + entry.id} {entry.date}{' '}
+                {formatMoney(entry.amount, marketplace)}
+                {entry.description ? ' - ' + entry.description : ''}
+              </span>
+              <span className="text-gray-500">{entry.reason}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Item, OrderSummary } from './amazonApi';
+import { allocateCents, allocateOrderSummary, allocateToCharge } from './allocationUtil';
+
+function item(title: string, price: number): Item {
+  return { title, price };
+}
+
+const sum = (amounts: number[]) => Math.round(amounts.reduce((total, amount) => total + amount, 0) * 100) / 100;
+
+describe('allocateCents', () => {
+  it('gives leftover cents to the largest remainders', () => {
+    expect(allocateCents(10, [1, 1, 1])).toEqual([3.34, 3.33, 3.33]);
+    expect(allocateCents(0.05, [3, 1])).toEqual([0.04, 0.01]);
+  });
+
+  it('keeps the sign of negative amounts', () => {
+    expect(allocateCents(-10, [1, 1, 1])).toEqual([-3.34, -3.33, -3.33]);
+  });
+
+  it('splits evenly when there is nothing to weigh by', () => {
+    expect(allocateCents(1, [0, NaN])).toEqual([0.5, 0.5]);
+    expect(allocateCents(1, [])).toEqual([]);
+  });
+});
+
+describe('allocateOrderSummary', () => {
+  // Items 20 and 10, shipping 4.99, tax 2.62, a 3.00 coupon
+  const summary: OrderSummary = {
+    subtotal: 30,
+    shipping: 4.99,
+    tax: 2.62,
+    giftWrap: 0,
+    promotions: 3,
+    giftCard: 0,
+    total: 34.61,
+  };
+
+  it('spreads shipping, tax and promotions by price so the item totals add up to the order total', () => {
+    const items = allocateOrderSummary([item('Lamp', 20), item('Bulbs', 10)], summary);
+    expect(items.map(item => item.total)).toEqual([23.08, 11.53]);
+    expect(items.map(item => item.discount)).toEqual([2, 1]);
+    expect(sum(items.map(item => item.total ?? 0))).toBe(34.61);
+  });
+
+  it('leaves the items alone without a summary', () => {
+    const items = [item('Lamp', 20)];
+    expect(allocateOrderSummary(items, undefined)).toBe(items);
+  });
+});
+
+describe('allocateToCharge', () => {
+  const items = [
+    { ...item('Lamp', 20), total: 23.08 },
+    { ...item('Bulbs', 10), total: 11.53 },
+  ];
+
+  it('scales the item totals to a charge that is only part of the order', () => {
+    // e.g. 10.00 paid with a gift card and the rest with a card
+    expect(allocateToCharge(items, 10).map(item => item.total)).toEqual([6.67, 3.33]);
+    expect(sum(allocateToCharge(items, 24.61).map(item => item.total ?? 0))).toBe(24.61);
+  });
+
+  it('keeps the totals when the charge is the whole order', () => {
+    expect(allocateToCharge(items, 34.61).map(item => item.total)).toEqual([23.08, 11.53]);
+  });
+});
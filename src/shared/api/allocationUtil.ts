@@ -0,0 +1,75 @@
+import { Item, OrderSummary } from './amazonApi';
+
+// Splits an amount across weights in whole cents so the parts always add up to the amount exactly.
+// Leftover cents go to the parts with the largest rounding remainder.
+export function allocateCents(amount: number, weights: number[]): number[] {
+  if (weights.length === 0) {
+    return [];
+  }
+
+  if (amount < 0) {
+    return allocateCents(-amount, weights).map(part => -part);
+  }
+
+  const cents = Math.round(amount * 100);
+  const positiveWeights = weights.map(weight => (Number.isFinite(weight) && weight > 0 ? weight : 0));
+  const totalWeight = positiveWeights.reduce((sum, weight) => sum + weight, 0);
+  // Fall back to an even split when there is nothing to weigh by (e.g. items without prices)
+  const shares = positiveWeights.map(weight => (totalWeight > 0 ? weight / totalWeight : 1 / weights.length));
+
+  const exact = shares.map(share => share * cents);
+  const parts = exact.map(value => Math.floor(value));
+  let remaining = cents - parts.reduce((sum, part) => sum + part, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (let i = 0; remaining > 0; i = (i + 1) % byRemainder.length) {
+    parts[byRemainder[i].index] += 1;
+    remaining--;
+  }
+
+  return parts.map(part => part / 100);
+}
+
+// Distributes the order level shipping, tax, gift wrap and promotions across items by price, so that the item totals
+// add up to the order total.
+export function allocateOrderSummary(items: Item[], summary: OrderSummary | undefined): Item[] {
+  if (!summary || items.length === 0 || !Number.isFinite(summary.total)) {
+    return items;
+  }
+
+  const weights = items.map(item => item.price);
+  const shipping = allocateCents(summary.shipping, weights);
+  const tax = allocateCents(summary.tax, weights);
+  const giftWrap = allocateCents(summary.giftWrap, weights);
+  const discount = allocateCents(summary.promotions, weights);
+  // Whatever is not explained by the other rows is the item cost. Using the remainder instead of the parsed subtotal
+  // keeps the totals exact even if an unknown fee row shows up.
+  const base = allocateCents(
+    summary.total - summary.shipping - summary.tax - summary.giftWrap + summary.promotions,
+    weights,
+  );
+
+  return items.map((item, index) => ({
+    ...item,
+    shipping: shipping[index],
+    giftWrap: giftWrap[index],
+    tax: tax[index],
+    discount: discount[index],
+    total: Math.round((base[index] + shipping[index] + giftWrap[index] + tax[index] - discount[index]) * 100) / 100,
+  }));
+}
+
+// Scales the item totals of an order to one of its charges, so the items of every charge add up to that charge. Orders
+// shipped in parts, paid partly with a gift card or refunded in part are charged less than the order total each time.
+export function allocateToCharge(items: Item[], amount: number): Item[] {
+  if (items.length === 0 || !Number.isFinite(amount)) {
+    return items;
+  }
+  const totals = allocateCents(
+    Math.abs(amount),
+    items.map(item => item.total ?? item.price),
+  );
+  return items.map((item, index) => ({ ...item, total: totals[index] }));
+}
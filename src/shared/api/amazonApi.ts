@@ -1,53 +1,145 @@
 import { ProgressPhase, ProgressState } from '../storages/progressStorage';
-import { load } from 'cheerio';
 import type { CheerioAPI } from 'cheerio';
 import * as Throttle from 'promise-parallel-throttle';
 import { debugLog } from '../storages/debugStorage';
+import { allocateOrderSummary, allocateToCharge } from './allocationUtil';
+import { linkRefundsToCharges, refundedItems } from './refundUtil';
+import { PaymentMethod, PaymentMethodType, parsePaymentMethod } from './paymentMethod';
+import { AmazonCaptchaError, AmazonSignedOutError, amazonRequest } from './amazonRequest';
+import type { CachedOrder } from '../storages/orderCacheStorage';
 import { AuthStatus } from '../storages/appStorage';
+import {
+  Marketplace,
+  MarketplaceConfig,
+  dateAfterLabel,
+  getMarketplace,
+  lastMoneyInText,
+  moneyToNumber,
+  parseDate,
+} from './marketplace';
 
-const ORDER_PAGES_URL = 'https://www.amazon.com/gp/css/order-history?disableCsd=no-js';
-const ORDER_DETAILS_URL = 'https://www.amazon.com/gp/your-account/order-details';
+const ORDER_PAGES_PATH = '/gp/css/order-history?disableCsd=no-js';
+const CUSTOMER_ID = /["']customer_?id["']\s*[:=]\s*["'](A[0-9A-Z]{8,})["']/i;
+const ORDER_DETAILS_PATH = '/gp/your-account/order-details';
+const DIGITAL_ORDER_PAGES_PATH = '/gp/css/order-history?disableCsd=no-js&digitalOrders=1&unifiedOrders=0';
+const DIGITAL_ORDER_DETAILS_PATH = '/gp/digital/your-account/order-summary.html';
+const GROCERY_ORDER_PAGES_PATH = '/gp/css/order-history?disableCsd=no-js&orderFilter=grocery';
+const GROCERY_ORDER_DETAILS_PATH = '/uff/your-account/order-details';
+const SUBSCRIPTIONS_PATH = '/yourmembershipsandsubscriptions';
+// Parts of a grocery order page that mention stores without saying where the order is from. Item rows are in here too,
+// "365 by Whole Foods Market" products are sold on Fresh as well.
+const GROCERY_PAGE_NOISE =
+  'script, style, header, footer, #navbar, #nav-main, #navFooter, #rhf, [id*="recommend"], [class*="recommend"], .a-fixed-left-grid';
 
 export type AmazonInfo = {
   status: AuthStatus;
   startingYear?: number;
+  // Amazon's customer id of the signed in account, the only thing that tells apart two logins with the same name
+  accountId?: string;
+  // Name of the signed in account, shown as the label of its profile
+  accountName?: string; // Amazon showed a bot check instead of the order list, signing in again won't help
+  captcha?: boolean;
 };
 
+export enum OrderType {
+  Physical = 'physical',
+  Digital = 'digital',
+  Fresh = 'fresh',
+  WholeFoods = 'wholeFoods',
+  // Not a real order, one charge of a membership such as Prime or Kindle Unlimited
+  Subscription = 'subscription',
+}
+
 export type Order = {
   id: string;
   date: string;
+  // Orders stored before digital orders were supported have no type, those are all physical
+  type?: OrderType;
+  summary?: OrderSummary;
+  // A return or refund was started but has not completed yet
+  pendingRefund?: boolean;
+  // Label of the Amazon profile the order was placed with
+  profile?: string;
   transactions?: OrderTransaction[];
 };
 
+// The "Order Summary" box of the order details page. Promotions are a positive amount that was taken off.
+export type OrderSummary = {
+  subtotal: number;
+  shipping: number;
+  tax: number;
+  promotions: number;
+  giftWrap: number;
+  giftCard: number;
+  // Grocery deliveries only, already included in the total
+  tip?: number;
+  total: number;
+};
+
 export type Item = {
   title: string;
+  // Price of the whole line, unitPrice times quantity
   price: number;
+  asin?: string;
+  quantity?: number;
+  unitPrice?: number;
+  seller?: string;
+  url?: string;
+  imageUrl?: string;
+  returnEligibleDate?: string;
+  // Subscriptions only, when the period paid by this charge ends
+  renewalDate?: string;
+  // Grocery items sold by weight, e.g. "1.52 lb", the price is for the weighed amount
+  weight?: string;
+  // Title of the grocery item that was out of stock and replaced by this one
+  substitutedFor?: string;
+  // Set when this item was returned and refunded, with the date of the refund when Amazon shows it
+  refunded?: boolean;
+  refundDate?: string;
+  // This item's share of the order summary, only known when the summary could be parsed
+  shipping?: number;
+  giftWrap?: number;
+  tax?: number;
+  discount?: number;
+  total?: number;
 };
 
 export type OrderTransaction = {
   id: string;
+  type?: OrderType;
   amount: number;
   date: string;
   refund: boolean;
   items: Item[];
+  summary?: OrderSummary;
+  // The card, gift card or points this charge was paid with, when Amazon shows it
+  paymentMethod?: PaymentMethod;
+  // For refunds, the date of the purchase charge being refunded
+  originalDate?: string;
+  // Label of the Amazon profile the order was placed with
+  profile?: string;
 };
 
-export async function checkAmazonAuth(): Promise<AmazonInfo> {
-  try {
-    debugLog('Checking Amazon auth');
-    const res = await fetch(ORDER_PAGES_URL);
-    await debugLog('Got Amazon auth response' + res.status);
-    const text = await res.text();
-    const $ = load(text);
-
-    const signIn = $('h1:contains("Sign in")');
+// The Amazon page of an order. Subscription charges have no order page, they link to the memberships page.
+export function orderUrl(transaction: { id: string; type?: OrderType }, config: MarketplaceConfig): string {
+  switch (transaction.type) {
+    case OrderType.Digital:
+      return config.baseUrl + DIGITAL_ORDER_DETAILS_PATH + '?orderID=' + transaction.id;
+    case OrderType.Fresh:
+    case OrderType.WholeFoods:
+      return config.baseUrl + GROCERY_ORDER_DETAILS_PATH + '?orderID=' + transaction.id;
+    case OrderType.Subscription:
+      return config.baseUrl + SUBSCRIPTIONS_PATH;
+    default:
+      return config.baseUrl + ORDER_DETAILS_PATH + '?orderID=' + transaction.id;
+  }
+}
 
-    if (signIn.length > 0) {
-      await debugLog('Amazon auth failed');
-      return {
-        status: AuthStatus.NotLoggedIn,
-      };
-    }
+export async function checkAmazonAuth(marketplace: Marketplace): Promise<AmazonInfo> {
+  const config = getMarketplace(marketplace);
+  try {
+    debugLog('Checking Amazon auth on ' + config.name);
+    const $ = await amazonRequest(config.baseUrl + ORDER_PAGES_PATH, config);
 
     const yearOptions: string[] = [];
     $('#time-filter')
@@ -60,32 +152,243 @@ export async function checkAmazonAuth(): Promise<AmazonInfo> {
     // find the lowest year
     const lowestYear = Math.min(...yearOptions.map(x => parseInt(x)));
 
+    // "Hello, Alex" in the navigation bar
+    const greeting = $('#nav-link-accountList-nav-line-1').first().text().trim();
+    const accountName = greeting.includes(',') ? greeting.split(',').slice(1).join(',').trim() : undefined;
+    // The page scripts carry the customer id, e.g. "customerId":"A1B2C3D4E5F6G7"
+    const accountId = $.html().match(CUSTOMER_ID)?.[1];
+
     await debugLog('Amazon auth success');
     return {
       status: AuthStatus.Success,
       startingYear: lowestYear,
+      accountId,
+      accountName: accountName || undefined,
     };
   } catch (e) {
+    if (e instanceof AmazonSignedOutError) {
+      await debugLog('Amazon auth failed');
+      return {
+        status: AuthStatus.NotLoggedIn,
+      };
+    }
     await debugLog('Amazon auth failed with error: ' + e);
     return {
       status: AuthStatus.Failure,
+      captcha: e instanceof AmazonCaptchaError,
     };
   }
 }
 
+export type FetchOrderOptions = {
+  // Orders in the cache that are final are not downloaded again
+  cache: Record<string, CachedOrder>;
+  // How many order detail pages to download at the same time
+  concurrency: number;
+};
+
 export async function fetchOrders(
+  marketplace: Marketplace,
+  year: number | undefined,
+  options: FetchOrderOptions,
+  onProgress: (progress: ProgressState) => void,
+): Promise<Order[]> {
+  const config = getMarketplace(marketplace);
+  const orders = await fetchOrderList(config, ORDER_PAGES_PATH, year, onProgress);
+  return downloadOrders(
+    orders.map(order => ({ ...order, type: OrderType.Physical })),
+    order => fetchOrderTransactions(config, order),
+    options,
+    onProgress,
+  );
+}
+
+// Kindle, Prime Video, Audible and app purchases are listed separately from physical orders
+export async function fetchDigitalOrders(
+  marketplace: Marketplace,
+  year: number | undefined,
+  options: FetchOrderOptions,
+  onProgress: (progress: ProgressState) => void,
+): Promise<Order[]> {
+  const config = getMarketplace(marketplace);
+  const orders = await fetchOrderList(config, DIGITAL_ORDER_PAGES_PATH, year, onProgress);
+  return downloadOrders(
+    orders.map(order => ({ ...order, type: OrderType.Digital })),
+    order => fetchDigitalOrderTransactions(config, order),
+    options,
+    onProgress,
+  );
+}
+
+// Amazon Fresh and Whole Foods deliveries have their own order list and a different order details page
+export async function fetchGroceryOrders(
+  marketplace: Marketplace,
+  year: number | undefined,
+  options: FetchOrderOptions,
+  onProgress: (progress: ProgressState) => void,
+): Promise<Order[]> {
+  const config = getMarketplace(marketplace);
+  const orders = await fetchOrderList(config, GROCERY_ORDER_PAGES_PATH, year, onProgress);
+  return downloadOrders(
+    orders.map(order => ({ ...order, type: OrderType.Fresh })),
+    order => fetchGroceryOrderTransactions(config, order),
+    options,
+    onProgress,
+  );
+}
+
+/**
+ * Memberships like Prime, Kindle Unlimited or Audible have no orders, only a card on the memberships page with the
+ * price and the next renewal. Every billing period before that renewal in the synced range becomes its own order with
+ * a single charge. Subscribe & Save deliveries are regular orders and are not included here.
+ */
+export async function fetchSubscriptions(marketplace: Marketplace, year: number | undefined): Promise<Order[]> {
+  const config = getMarketplace(marketplace);
+  await debugLog('Fetching subscriptions');
+  const $ = await amazonRequest(config.baseUrl + SUBSCRIPTIONS_PATH, config);
+
+  let start: Date;
+  let end: Date;
+  if (year) {
+    start = new Date(year, 0, 1);
+    end = new Date(year + 1, 0, 1);
+  } else {
+    end = new Date();
+    start = new Date();
+    start.setMonth(start.getMonth() - 3);
+  }
+
+  const orders: Order[] = [];
+  $('[class*="subscription-card"]').each((_, el) => {
+    // Cards can be nested in their container, only read the innermost one
+    if ($(el).find('[class*="subscription-card"]').length > 0) return;
+
+    const name = $(el).find('h2, h3, .a-text-bold').first().text().trim();
+    const lines = $(el)
+      .find('.a-row, span, div')
+      .map((_, line) => $(line).text().replace(/\s+/g, ' ').trim())
+      .get()
+      .sort((a, b) => a.length - b.length);
+    const renewal = config.labels.renewal.map(label => labelledValue(lines, label)).find(Boolean);
+    const renewalDate = renewal ? parseDate(renewal, config) : undefined;
+    const priceLine = lines.find(line => lastMoneyInText(line, config) > 0);
+    const price = priceLine ? lastMoneyInText(priceLine, config) : undefined;
+    if (!name || !price || !renewalDate || !/^\d{4}-\d{2}-\d{2}$/.test(renewalDate)) {
+      debugLog('Skipping subscription without a name, price or renewal date: ' + name);
+      return;
+    }
+
+    const billingPeriod = config.labels.billingPeriod.map(label => labelledValue(lines, label)).find(Boolean);
+    const months = includesWord(billingPeriod ?? priceLine ?? '', config.labels.yearly) ? 12 : 1;
+    const since = config.labels.memberSince.map(label => labelledValue(lines, label)).find(Boolean);
+    const sinceDate = since ? parseDate(since, config) : '';
+    const started = /^\d{4}-\d{2}-\d{2}$/.test(sinceDate) ? sinceDate : undefined;
+    const paymentMethod = parsePaymentMethod($(el).text(), config.labels.giftCard);
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+    // The next renewal hasn't been charged yet, so the charges are one or more periods before it. Earlier periods are
+    // only charges when Amazon says the subscription already ran back then, without a start date only the last one is.
+    for (let period = 1; ; period++) {
+      const charged = monthsBefore(renewalDate, period * months);
+      if (charged < start) break;
+      if (started ? isoDate(charged) < started : period > 1) break;
+      if (charged >= end) continue;
+
+      const date = isoDate(charged);
+      const paidUntil = isoDate(monthsBefore(renewalDate, (period - 1) * months));
+      const item: Item = { title: name, price, quantity: 1, unitPrice: price, total: price, renewalDate: paidUntil };
+      orders.push({
+        id: `subscription-${slug}-${date}`,
+        date,
+        type: OrderType.Subscription,
+        transactions: [
+          {
+            id: `subscription-${slug}-${date}`,
+            type: OrderType.Subscription,
+            date,
+            amount: price,
+            refund: false,
+            items: [item],
+            paymentMethod,
+          },
+        ],
+      });
+    }
+  });
+
+  await debugLog('Found ' + orders.length + ' subscription charges');
+  return orders;
+}
+
+// Whole words only, so "annual" doesn't match inside "semiannual" and "year" not inside "yearbook"
+function includesWord(text: string, words: string[]): boolean {
+  const lower = text.toLowerCase();
+  return words.some(word => {
+    const index = lower.indexOf(word.toLowerCase());
+    return (
+      index !== -1 &&
+      !/[\p{L}\d]/u.test(lower.charAt(index - 1)) &&
+      !/[\p{L}\d]/u.test(lower.charAt(index + word.length))
+    );
+  });
+}
+
+// Keeps the day of the month where possible, a renewal on the 31st is charged on the 30th in shorter months
+function monthsBefore(date: string, months: number): Date {
+  const [year, month, day] = date.split('-').map(part => parseInt(part));
+  const lastDay = new Date(year, month - 1 - months + 1, 0).getDate();
+  return new Date(year, month - 1 - months, Math.min(day, lastDay));
+}
+
+function isoDate(date: Date): string {
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+}
+
+// Amazon's standard return window, used when the order page doesn't say until when items can be returned
+const RETURN_WINDOW_DAYS = 30;
+
+// Items can still be returned until the last return date, or for the standard window when no item shows one
+function returnWindowOpen(order: Order, now: number): boolean {
+  const today = isoDate(new Date(now));
+  const returnDates = (order.transactions ?? [])
+    .flatMap(transaction => transaction.items)
+    .map(item => item.returnEligibleDate)
+    .filter((date): date is string => !!date);
+  if (returnDates.length > 0) {
+    return returnDates.some(date => date >= today);
+  }
+  const windowEnd = new Date(order.date);
+  windowEnd.setDate(windowEnd.getDate() + RETURN_WINDOW_DAYS);
+  return isNaN(windowEnd.getTime()) || isoDate(windowEnd) >= today;
+}
+
+// An order is final once everything has been charged, no refund is in progress and nothing can be returned anymore,
+// so it can't change anymore
+export function isOrderFinal(order: Order, now = Date.now()): boolean {
+  if (order.pendingRefund || !order.summary || !order.transactions || order.transactions.length === 0) {
+    return false;
+  }
+  if (returnWindowOpen(order, now)) {
+    return false;
+  }
+  const charged = order.transactions
+    .filter(transaction => !transaction.refund)
+    .reduce((sum, transaction) => sum + transaction.amount, 0);
+  return Math.abs(charged - order.summary.total) < 0.01;
+}
+
+async function fetchOrderList(
+  config: MarketplaceConfig,
+  path: string,
   year: number | undefined,
   onProgress: (progress: ProgressState) => void,
 ): Promise<Order[]> {
-  let url = ORDER_PAGES_URL;
+  let url = config.baseUrl + path;
   if (year) {
     url += `&timeFilter=year-${year}`;
   }
   await debugLog('Fetching orders from ' + url);
-  const res = await fetch(url);
-  await debugLog('Got orders response ' + res.status);
-  const text = await res.text();
-  const $ = load(text);
+  const $ = await amazonRequest(url, config);
 
   let endPage = 1;
   $('.a-pagination li').each((_, el) => {
@@ -100,52 +403,76 @@ export async function fetchOrders(
 
   onProgress({ phase: ProgressPhase.AmazonPageScan, total: endPage, complete: 0 });
 
-  let orders = orderListFromPage($);
+  let orders = orderListFromPage($, config);
   await debugLog('Found ' + orders.length + ' orders');
 
   onProgress({ phase: ProgressPhase.AmazonPageScan, total: endPage, complete: 1 });
 
   for (let i = 2; i <= endPage; i++) {
-    const ordersPage = await processOrders(year, i);
+    const ordersPage = await processOrders(config, path, year, i);
     orders = orders.concat(ordersPage);
     onProgress({ phase: ProgressPhase.AmazonPageScan, total: endPage, complete: i });
   }
 
+  return orders;
+}
+
+// The cache keeps the summary once per order rather than on every charge
+function restoreCachedOrder(order: Order): Order {
+  return {
+    ...order,
+    transactions: order.transactions?.map(transaction => ({ ...transaction, summary: order.summary })),
+  };
+}
+
+async function downloadOrders(
+  orders: Order[],
+  fetchDetails: (order: Order) => Promise<Order>,
+  { cache, concurrency }: FetchOrderOptions,
+  onProgress: (progress: ProgressState) => void,
+): Promise<Order[]> {
   const allOrders: Order[] = [];
 
   const processOrder = async (order: Order) => {
     try {
-      const orderData = await fetchOrderTransactions(order);
+      const cached = cache[order.id];
+      // Checked again since orders cached before return windows were considered can still have returns coming
+      const orderData =
+        cached?.final && isOrderFinal(cached.order) ? restoreCachedOrder(cached.order) : await fetchDetails(order);
       if (orderData) {
         allOrders.push(orderData);
       }
     } catch (e: unknown) {
+      // Every other order would fail the same way, so stop the whole download
+      if (e instanceof AmazonCaptchaError || e instanceof AmazonSignedOutError) {
+        throw e;
+      }
       await debugLog(e);
     }
 
     onProgress({ phase: ProgressPhase.AmazonOrderDownload, total: orders.length, complete: allOrders.length });
   };
 
-  await Throttle.all(orders.map(order => () => processOrder(order)));
+  await Throttle.all(
+    orders.map(order => () => processOrder(order)),
+    { maxInProgress: Math.max(1, concurrency || 1) },
+  );
 
   return allOrders;
 }
 
-async function processOrders(year: number | undefined, page: number) {
+async function processOrders(config: MarketplaceConfig, path: string, year: number | undefined, page: number) {
   const index = (page - 1) * 10;
-  let url = ORDER_PAGES_URL + '&startIndex=' + index;
+  let url = config.baseUrl + path + '&startIndex=' + index;
   if (year) {
     url += `&timeFilter=year-${year}`;
   }
-  await debugLog('Fetching orders from ' + url);
-  const res = await fetch(url);
-  await debugLog('Got orders response ' + res.status + ' for page ' + page);
-  const text = await res.text();
-  const $ = load(text);
-  return orderListFromPage($);
+  await debugLog('Fetching orders from ' + url + ' for page ' + page);
+  const $ = await amazonRequest(url, config);
+  return orderListFromPage($, config);
 }
 
-function orderListFromPage($: CheerioAPI): Order[] {
+function orderListFromPage($: CheerioAPI, config: MarketplaceConfig): Order[] {
   const orders: Order[] = [];
   $('.js-order-card').each((_, el) => {
     try {
@@ -154,7 +481,7 @@ function orderListFromPage($: CheerioAPI): Order[] {
         ?.attr('href')
         ?.replace(/.*orderID=([^&#]+).*/, '$1');
       if (id) {
-        const date = $(el).find('.order-info .value')?.first().text().trim();
+        const date = parseDate($(el).find('.order-info .value')?.first().text(), config);
         orders.push({
           id,
           date,
@@ -167,35 +494,75 @@ function orderListFromPage($: CheerioAPI): Order[] {
   return orders;
 }
 
-async function fetchOrderTransactions(order: Order): Promise<Order> {
+async function fetchOrderTransactions(config: MarketplaceConfig, order: Order): Promise<Order> {
   await debugLog('Fetching order ' + order.id);
-  const res = await fetch(ORDER_DETAILS_URL + '?orderID=' + order.id);
-  await debugLog('Got order response ' + res.status + ' for order ' + order.id);
-  const text = await res.text();
-  const $ = load(text);
+  const $ = await amazonRequest(config.baseUrl + ORDER_DETAILS_PATH + '?orderID=' + order.id, config);
 
-  const items: Item[] = [];
+  let items: Item[] = [];
   $('.yohtmlc-item').each((_, el) => {
-    const item = $(el).find('.a-link-normal').first()?.text()?.trim();
-    const price = moneyToNumber($(el).find('.a-color-price').first()?.text());
+    // The first link can be a "Buy it again" or review link, so look for the product link
+    const productLink = $(el)
+      .find('a[href*="/product/"], a[href*="/dp/"]')
+      .filter((_, link) => !!$(link).text().trim());
+    const titleLink = productLink.length > 0 ? productLink.first() : $(el).find('.a-link-normal').first();
+    const item = titleLink?.text()?.trim();
+    const asin = asinFromUrl(titleLink?.attr('href'));
+
+    // Quantity and image are in the left column next to the item details
+    const row = $(el).closest('.a-fixed-left-grid');
+    const quantity = parseInt(row.find('.item-view-qty').first().text().trim()) || 1;
+    const unitPrice = moneyToNumber($(el).find('.a-color-price').first()?.text(), config);
+
+    const lines = $(el)
+      .find('.a-row')
+      .map((_, line) => $(line).text().replace(/\s+/g, ' ').trim())
+      .get()
+      .sort((a, b) => a.length - b.length);
+    const returnEligible = labelledValue(lines, config.labels.returnEligible);
+
+    // Returned items say so on the item itself or on top of the shipment box they were in
+    const statusLines = lines.concat([
+      $(el).closest('.shipment').find('.shipment-top-row').text().replace(/\s+/g, ' '),
+    ]);
+    const refundLine = statusLines.find(line =>
+      config.labels.itemRefunded.some(label => line.toLowerCase().includes(label.toLowerCase())),
+    );
+
     if (item) {
       items.push({
         title: item,
-        price,
+        price: Math.round(unitPrice * quantity * 100) / 100,
+        asin,
+        quantity,
+        unitPrice,
+        seller: labelledValue(lines, config.labels.soldBy),
+        url: asin ? config.baseUrl + '/dp/' + asin : undefined,
+        imageUrl: row.find('img').first().attr('src'),
+        returnEligibleDate: returnEligible ? parseDate(returnEligible, config) : undefined,
+        refunded: refundLine ? true : undefined,
+        refundDate: refundLine ? dateAfterLabel(refundLine, config.labels.itemRefunded, config) : undefined,
       });
     }
   });
 
+  const summary = orderSummaryFromPage($, config);
+  items = allocateOrderSummary(items, summary);
+
+  const pageText = $('body').text();
+  const pendingRefund = config.labels.refundPending.some(label => pageText.includes(label));
+
   const transactions: OrderTransaction[] = [];
 
-  const giftCardAmount = moneyToNumber($('#od-subtotals .a-column:contains("Gift Card") + .a-column').text());
-  if (giftCardAmount) {
+  if (summary?.giftCard) {
     transactions.push({
       id: order.id,
+      type: order.type,
       date: order.date,
-      amount: giftCardAmount,
+      amount: summary.giftCard,
       refund: false,
-      items,
+      items: allocateToCharge(items, summary.giftCard),
+      summary,
+      paymentMethod: { type: PaymentMethodType.GiftCard },
     });
   }
 
@@ -204,37 +571,295 @@ async function fetchOrderTransactions(order: Order): Promise<Order> {
     .find('.a-row')
     .each((_, el) => {
       const line = $(el).text().trim().replaceAll('\n', '');
-      if (line.includes('Items shipped')) {
-        const dateAndAmount = line.split('shipped:')[1].trim();
-        const date = dateAndAmount.split('-')[0].trim();
-        const amount = moneyToNumber(dateAndAmount.split('-')[1].split('$')[1]);
+      if (line.includes(config.labels.itemsShipped)) {
+        const { date, amount, paymentMethod } = parseChargeLine(line, config.labels.itemsShipped, config);
         transactions.push({
           id: order.id,
+          type: order.type,
           date,
           amount,
           refund: false,
-          items,
+          items: allocateToCharge(items, amount),
+          summary,
+          paymentMethod,
         });
-      } else if (line.includes('Refund: Completed')) {
-        const dateAndAmount = line.split(': Completed')[1].trim();
-        const date = dateAndAmount.split('-')[0].trim();
-        const amount = moneyToNumber(dateAndAmount.split('-')[1].split('$')[1]);
+      } else if (line.includes(config.labels.refundCompleted)) {
+        const { date, amount, paymentMethod } = parseChargeLine(line, config.labels.refundCompleted, config);
         transactions.push({
           id: order.id,
+          type: order.type,
           date,
           amount,
           refund: true,
-          items,
+          items: allocateToCharge(refundedItems(items, date), amount),
+          summary,
+          paymentMethod,
         });
       }
     });
 
   return {
     ...order,
+    summary,
+    pendingRefund,
+    transactions: linkRefundsToCharges(transactions),
+  };
+}
+
+async function fetchDigitalOrderTransactions(config: MarketplaceConfig, order: Order): Promise<Order> {
+  await debugLog('Fetching digital order ' + order.id);
+  const $ = await amazonRequest(config.baseUrl + DIGITAL_ORDER_DETAILS_PATH + '?orderID=' + order.id, config);
+
+  // The invoice is a plain table, one row per item with the price in the last column
+  let items: Item[] = [];
+  $('tr:has(a[href*="/dp/"])').each((_, el) => {
+    // The item table sits inside layout tables whose rows match too, only read the innermost one
+    if ($(el).find('tr:has(a[href*="/dp/"])').length > 0) return;
+
+    const link = $(el).find('a[href*="/dp/"]');
+    const title = link.text().trim();
+    const price = lastMoneyInText($(el).find('td').last().text(), config);
+    const asin = asinFromUrl(link.attr('href'));
+    const cells = $(el)
+      .find('td, span, div')
+      .map((_, cell) => $(cell).text().replace(/\s+/g, ' ').trim())
+      .get()
+      // Innermost elements first, so the seller cell is found rather than the whole row
+      .sort((a, b) => a.length - b.length);
+    if (title) {
+      items.push({
+        title,
+        price,
+        asin,
+        quantity: 1,
+        unitPrice: price,
+        seller: labelledValue(cells, config.labels.soldBy),
+        url: asin ? config.baseUrl + '/dp/' + asin : undefined,
+        imageUrl: $(el).find('img').first().attr('src'),
+      });
+    }
+  });
+
+  const summary = orderSummaryFromPage($, config, 'tr:not(:has(a)):not(:has(tr))', 'td');
+  items = allocateOrderSummary(items, summary);
+
+  // Digital orders are charged in full when they are placed
+  const transactions: OrderTransaction[] = [];
+  if (summary?.giftCard) {
+    transactions.push({
+      id: order.id,
+      type: OrderType.Digital,
+      date: order.date,
+      amount: summary.giftCard,
+      refund: false,
+      items: allocateToCharge(items, summary.giftCard),
+      summary,
+      paymentMethod: { type: PaymentMethodType.GiftCard },
+    });
+  }
+  const paymentMethod = parsePaymentMethod(
+    $(`*:contains("${config.labels.paymentMethod}")`).last().parent().text(),
+    config.labels.giftCard,
+  );
+  const charged = summary ? Math.round((summary.total - summary.giftCard) * 100) / 100 : 0;
+  if (charged > 0) {
+    transactions.push({
+      id: order.id,
+      type: OrderType.Digital,
+      date: order.date,
+      amount: charged,
+      refund: false,
+      items: allocateToCharge(items, charged),
+      summary,
+      // Gift card balance is already its own charge above
+      paymentMethod: paymentMethod?.type === PaymentMethodType.GiftCard ? undefined : paymentMethod,
+    });
+  }
+
+  return {
+    ...order,
+    summary,
+    transactions,
+  };
+}
+
+async function fetchGroceryOrderTransactions(config: MarketplaceConfig, order: Order): Promise<Order> {
+  await debugLog('Fetching grocery order ' + order.id);
+  const $ = await amazonRequest(config.baseUrl + GROCERY_ORDER_DETAILS_PATH + '?orderID=' + order.id, config);
+
+  const includesLabel = (text: string, labels: string[]) =>
+    labels.some(label => text.toLowerCase().includes(label.toLowerCase()));
+  // The store is named in the order header and delivery details
+  const orderText = $('body').clone().find(GROCERY_PAGE_NOISE).remove().end().text();
+  const type = includesLabel(orderText, config.labels.wholeFoods) ? OrderType.WholeFoods : OrderType.Fresh;
+
+  let items: Item[] = [];
+  $('.a-fixed-left-grid:has(a[href*="/dp/"], a[href*="/product/"])').each((_, el) => {
+    // Rows are nested in some layouts, only read the innermost one
+    if ($(el).find('.a-fixed-left-grid').length > 0) return;
+
+    const text = $(el).text().replace(/\s+/g, ' ').trim();
+    // Out of stock items without a replacement are listed but never charged
+    if (includesLabel(text, config.labels.unavailable) && !includesLabel(text, config.labels.substituted)) return;
+
+    const links = $(el)
+      .find('a[href*="/dp/"], a[href*="/product/"]')
+      .filter((_, link) => !!$(link).text().trim());
+    if (links.length === 0) return;
+
+    // A substituted row links the ordered item first and the item that was delivered instead last
+    const substituted = includesLabel(text, config.labels.substituted) && links.length > 1;
+    const titleLink = links.last();
+    const asin = asinFromUrl(titleLink.attr('href'));
+
+    // Items sold by weight show "1.52 lb @ $0.69/lb" and are charged for what was weighed, not per unit
+    const weight = text.match(/(\d+(?:[.,]\d+)?)\s*(lbs?|kg|oz|g)\b(?=\s*@)/)?.[0];
+    const quantity = weight ? 1 : parseInt(text.match(/(?:Qty|Quantity|Menge):?\s*(\d+)/i)?.[1] ?? '') || 1;
+    const price = moneyToNumber($(el).find('.a-color-price').last().text(), config);
+
+    items.push({
+      title: titleLink.text().trim(),
+      price,
+      asin,
+      quantity,
+      unitPrice: Math.round((price / quantity) * 100) / 100,
+      url: asin ? config.baseUrl + '/dp/' + asin : undefined,
+      imageUrl: $(el).find('img').last().attr('src'),
+      weight,
+      substitutedFor: substituted ? links.first().text().trim() : undefined,
+    });
+  });
+
+  const summary = orderSummaryFromPage($, config);
+  // The tip is not part of any item, so spread the rest of the order over the items and list the tip on its own
+  const tip = summary?.tip ?? 0;
+  items = allocateOrderSummary(items, summary && { ...summary, total: Math.round((summary.total - tip) * 100) / 100 });
+  if (tip > 0) {
+    items.push({ title: 'Tip', price: tip, quantity: 1, unitPrice: tip, total: tip });
+  }
+
+  // Groceries are charged once when they are delivered, the tip included
+  const transactions: OrderTransaction[] = [];
+  if (summary?.giftCard) {
+    transactions.push({
+      id: order.id,
+      type,
+      date: order.date,
+      amount: summary.giftCard,
+      refund: false,
+      items: allocateToCharge(items, summary.giftCard),
+      summary,
+      paymentMethod: { type: PaymentMethodType.GiftCard },
+    });
+  }
+  const paymentMethod = parsePaymentMethod(
+    $(`*:contains("${config.labels.paymentMethod}")`).last().parent().text(),
+    config.labels.giftCard,
+  );
+  const charged = summary ? Math.round((summary.total - summary.giftCard) * 100) / 100 : 0;
+  if (charged > 0) {
+    transactions.push({
+      id: order.id,
+      type,
+      date: order.date,
+      amount: charged,
+      refund: false,
+      items: allocateToCharge(items, charged),
+      summary,
+      paymentMethod: paymentMethod?.type === PaymentMethodType.GiftCard ? undefined : paymentMethod,
+    });
+  }
+
+  return {
+    ...order,
+    type,
+    summary,
     transactions,
   };
 }
 
-function moneyToNumber(money: string, absoluteValue = true) {
-  return parseFloat(money?.replace(absoluteValue ? /[$\s-]/g : /[$\s]/g, ''));
+function orderSummaryFromPage(
+  $: CheerioAPI,
+  config: MarketplaceConfig,
+  rowSelector = '#od-subtotals .a-row',
+  columnSelector = '.a-column',
+): OrderSummary | undefined {
+  const summary: OrderSummary = {
+    subtotal: 0,
+    shipping: 0,
+    tax: 0,
+    promotions: 0,
+    giftWrap: 0,
+    giftCard: 0,
+    total: NaN,
+  };
+  const labels = config.summaryLabels;
+  const matches = (label: string, candidates: string[]) =>
+    candidates.some(candidate => label.includes(candidate.toLowerCase()));
+
+  $(rowSelector).each((_, el) => {
+    const columns = $(el).find(columnSelector);
+    if (columns.length < 2) return;
+
+    const label = columns.first().text().trim().toLowerCase();
+    const amount = moneyToNumber(columns.last().text(), config, false);
+    if (!label || Number.isNaN(amount)) return;
+
+    // Order matters, "Total before tax" contains both a total and a tax label and "Subtotal" contains "total"
+    if (label.includes(config.labels.giftCard.toLowerCase())) {
+      summary.giftCard += Math.abs(amount);
+    } else if (matches(label, labels.tip)) {
+      summary.tip = (summary.tip ?? 0) + amount;
+    } else if (matches(label, labels.beforeTax)) {
+      return;
+    } else if (matches(label, labels.subtotal)) {
+      summary.subtotal += amount;
+    } else if (matches(label, labels.total)) {
+      summary.total = amount;
+    } else if (matches(label, labels.giftWrap)) {
+      summary.giftWrap += amount;
+    } else if (matches(label, labels.shipping)) {
+      summary.shipping += amount;
+    } else if (matches(label, labels.tax)) {
+      summary.tax += amount;
+    } else if (amount < 0) {
+      summary.promotions += Math.abs(amount);
+    }
+  });
+
+  if (Number.isNaN(summary.total)) {
+    return undefined;
+  }
+  return summary;
+}
+
+// Finds the text after a label like "Sold by: Some Seller", ignoring case since pages differ in capitalization
+function labelledValue(lines: string[], label: string): string | undefined {
+  for (const line of lines) {
+    const index = line.toLowerCase().indexOf(label.toLowerCase());
+    if (index !== -1) {
+      return (
+        line
+          .slice(index + label.length)
+          .replace(/^\s*:/, '')
+          .trim() || undefined
+      );
+    }
+  }
+  return undefined;
+}
+
+// Product links look like /gp/product/B0C1234567/ref=... or /Some-Title/dp/B0C1234567
+function asinFromUrl(url: string | undefined): string | undefined {
+  return url?.match(/\/(?:dp|product)\/([A-Z0-9]{10})/)?.[1];
+}
+
+// Lines look like "Items shipped: January 5, 2024 - Visa ending in 1234: $12.34"
+function parseChargeLine(line: string, label: string, config: MarketplaceConfig) {
+  const dateAndAmount = line.split(label)[1].replace(/^\s*:/, '').trim();
+  const [datePart, ...rest] = dateAndAmount.split('-');
+  const date = parseDate(datePart, config);
+  const amount = lastMoneyInText(dateAndAmount, config);
+  const paymentMethod = parsePaymentMethod(rest.join('-'), config.labels.giftCard);
+  return { date, amount, paymentMethod };
 }
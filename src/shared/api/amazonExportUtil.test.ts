@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { PaymentMethodType } from './paymentMethod';
+import { ExportFileType, detectExportFileType, ordersFromExportFiles } from './amazonExportUtil';
+
+// Rows as in Retail.OrderHistory.1.csv of the "Request Your Data" export, shortened to the columns that are read
+const ORDER_HISTORY = `Website,Order ID,Order Date,Unit Price,Unit Price Tax,Shipping Charge,Total Discounts,Total Owed,Quantity,Payment Instrument Type,Order Status,Ship Date,Product Name,ASIN
+Amazon.com,111-2222222-3333333,2024-03-01T18:12:34Z,12.50,1.03,0,0,26.06,2,Visa - 1234,Closed,2024-03-02T10:00:00Z,"USB-C Cable, 2 Pack",B0ABCDEFGH
+Amazon.com,111-2222222-3333333,2024-03-01T18:12:34Z,27.00,2.23,4.99,'-3.00',31.22,1,Visa - 1234,Closed,2024-03-05T10:00:00Z,Diapers Size 3,B0IJKLMNOP
+Amazon.com,111-4444444-5555555,2024-03-03T09:00:00Z,5.00,0,0,0,5.00,1,Visa - 1234,Cancelled,Not Available,Cancelled thing,B0QRSTUVWX
+`;
+
+const RETURNS = `OrderId,AmountRefunded,RefundCompletionDate,Status
+111-2222222-3333333,26.06,2024-03-20T12:00:00Z,Completed
+111-9999999-9999999,10.00,2024-03-21T12:00:00Z,Completed
+`;
+
+describe('detectExportFileType', () => {
+  it('tells the order history and returns files apart', () => {
+    expect(detectExportFileType(ORDER_HISTORY)).toBe(ExportFileType.OrderHistory);
+    expect(detectExportFileType(RETURNS)).toBe(ExportFileType.Returns);
+    expect(detectExportFileType('Name,Email\n')).toBe(ExportFileType.Unknown);
+  });
+});
+
+describe('ordersFromExportFiles', () => {
+  const [order] = ordersFromExportFiles([RETURNS, ORDER_HISTORY]);
+
+  it('groups the rows into one charge per ship date and leaves out cancelled orders', () => {
+    expect(ordersFromExportFiles([ORDER_HISTORY]).map(order => order.id)).toEqual(['111-2222222-3333333']);
+    expect(order.date).toBe('2024-03-01');
+    expect(order.summary?.total).toBe(57.28);
+    const charges = order.transactions?.filter(transaction => !transaction.refund) ?? [];
+    expect(charges.map(charge => [charge.date, charge.amount, charge.items.map(item => item.title)])).toEqual([
+      ['2024-03-02', 26.06, ['USB-C Cable, 2 Pack']],
+      ['2024-03-05', 31.22, ['Diapers Size 3']],
+    ]);
+    expect(charges[0].items[0]).toMatchObject({ quantity: 2, price: 25, url: 'https://amazon.com/dp/B0ABCDEFGH' });
+    expect(charges[0].paymentMethod?.type).toBe(PaymentMethodType.Card);
+  });
+
+  it('adds completed refunds to their order, even when the returns file comes first', () => {
+    const refunds = order.transactions?.filter(transaction => transaction.refund) ?? [];
+    expect(refunds.map(refund => [refund.date, refund.amount, refund.originalDate])).toEqual([
+      ['2024-03-20', 26.06, '2024-03-02'],
+    ]);
+  });
+});
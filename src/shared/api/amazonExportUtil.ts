@@ -0,0 +1,197 @@
+import { parse } from 'csv-parse/browser/esm/sync';
+import { Item, Order, OrderSummary, OrderTransaction, OrderType } from './amazonApi';
+import { parsePaymentMethod } from './paymentMethod';
+
+// Parses the CSV files from Amazon's "Request Your Data" privacy export. Each row of the order history is one item,
+// the rows are grouped into orders and the items shipped on the same day into one charge.
+
+type Row = Record<string, string>;
+
+export enum ExportFileType {
+  OrderHistory = 'orderHistory',
+  Returns = 'returns',
+  Unknown = 'unknown',
+}
+
+function parseRows(text: string): Row[] {
+  return parse(text, {
+    columns: true,
+    skip_empty_lines: true,
+    relax_column_count: true,
+    bom: true,
+    trim: true,
+  });
+}
+
+// Column names differ between export versions, so look them up case and space insensitively
+function column(row: Row, ...names: string[]): string {
+  const normalize = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+  const wanted = names.map(normalize);
+  const key = Object.keys(row).find(key => wanted.includes(normalize(key)));
+  return key ? row[key] ?? '' : '';
+}
+
+function exportNumber(value: string): number {
+  const number = parseFloat(value.replace(/[^\d.-]/g, ''));
+  return Number.isNaN(number) ? 0 : number;
+}
+
+// Dates are ISO timestamps like 2023-01-05T18:12:34Z, or "Not Available" for things that never shipped
+function exportDate(value: string): string | undefined {
+  const match = value.match(/^\d{4}-\d{2}-\d{2}/);
+  return match ? match[0] : undefined;
+}
+
+function round(amount: number) {
+  return Math.round(amount * 100) / 100;
+}
+
+export function detectExportFileType(text: string): ExportFileType {
+  const header = text.split('\n')[0].toLowerCase();
+  if (header.includes('order id') && header.includes('product name')) {
+    return ExportFileType.OrderHistory;
+  }
+  if (header.includes('refund') || header.includes('reversal')) {
+    return ExportFileType.Returns;
+  }
+  return ExportFileType.Unknown;
+}
+
+export function ordersFromOrderHistory(text: string): Order[] {
+  const rowsByOrder = new Map<string, Row[]>();
+  for (const row of parseRows(text)) {
+    const id = column(row, 'Order ID');
+    if (!id || column(row, 'Order Status').toLowerCase() === 'cancelled') continue;
+    rowsByOrder.set(id, (rowsByOrder.get(id) ?? []).concat([row]));
+  }
+
+  const orders: Order[] = [];
+  for (const [id, rows] of rowsByOrder) {
+    const date = exportDate(column(rows[0], 'Order Date'));
+    if (!date) continue;
+
+    const summary: OrderSummary = {
+      subtotal: 0,
+      shipping: 0,
+      tax: 0,
+      promotions: 0,
+      giftWrap: 0,
+      giftCard: 0,
+      total: 0,
+    };
+    const itemsByShipDate = new Map<string, Item[]>();
+    const amountByShipDate = new Map<string, number>();
+
+    for (const row of rows) {
+      const quantity = exportNumber(column(row, 'Quantity')) || 1;
+      const price = exportNumber(column(row, 'Unit Price'));
+      const tax = exportNumber(column(row, 'Unit Price Tax')) * quantity;
+      const shipping = exportNumber(column(row, 'Shipping Charge'));
+      const discount = Math.abs(exportNumber(column(row, 'Total Discounts')));
+      const total = exportNumber(column(row, 'Total Owed'));
+
+      summary.subtotal += price * quantity;
+      summary.tax += tax;
+      summary.shipping += shipping;
+      summary.promotions += discount;
+      summary.total += total;
+
+      // Amazon charges when a shipment leaves, items that haven't shipped yet are charged on the order date
+      const shipDate = exportDate(column(row, 'Ship Date')) ?? date;
+      const asin = column(row, 'ASIN') || undefined;
+      const item: Item = {
+        title: column(row, 'Product Name'),
+        price: round(price * quantity),
+        asin,
+        quantity,
+        unitPrice: round(price),
+        url: asin ? 'https://' + (column(row, 'Website').toLowerCase() || 'amazon.com') + '/dp/' + asin : undefined,
+        shipping: round(shipping),
+        tax: round(tax),
+        discount: round(discount),
+        total: round(total),
+      };
+      itemsByShipDate.set(shipDate, (itemsByShipDate.get(shipDate) ?? []).concat([item]));
+      amountByShipDate.set(shipDate, (amountByShipDate.get(shipDate) ?? 0) + total);
+    }
+
+    const roundedSummary: OrderSummary = {
+      subtotal: round(summary.subtotal),
+      shipping: round(summary.shipping),
+      tax: round(summary.tax),
+      promotions: round(summary.promotions),
+      giftWrap: 0,
+      giftCard: 0,
+      total: round(summary.total),
+    };
+    // e.g. "Visa - 1234" or "Gift Certificate/Card"
+    const paymentMethod = parsePaymentMethod(column(rows[0], 'Payment Instrument Type'));
+    const transactions: OrderTransaction[] = [...itemsByShipDate.entries()].map(([shipDate, items]) => ({
+      id,
+      type: OrderType.Physical,
+      date: shipDate,
+      amount: round(amountByShipDate.get(shipDate) ?? 0),
+      refund: false,
+      items,
+      summary: roundedSummary,
+      paymentMethod,
+    }));
+
+    orders.push({
+      id,
+      date,
+      type: OrderType.Physical,
+      summary: roundedSummary,
+      transactions,
+    });
+  }
+
+  return orders;
+}
+
+// Adds a refund transaction to the matching order for every completed refund in the returns file
+export function addRefundsFromReturns(orders: Order[], text: string): Order[] {
+  const ordersById = new Map(orders.map(order => [order.id, order]));
+  for (const row of parseRows(text)) {
+    const order = ordersById.get(column(row, 'Order ID', 'OrderId'));
+    const date = exportDate(
+      column(row, 'Refund Completion Date', 'RefundCompletionDate', 'Refund Date', 'Return Date'),
+    );
+    const amount = Math.abs(exportNumber(column(row, 'Amount Refunded', 'AmountRefunded', 'Refund Amount')));
+    if (!order || !date || !amount) continue;
+
+    const status = column(row, 'Status').toLowerCase();
+    if (status && !status.includes('complete')) continue;
+
+    const items = order.transactions?.flatMap(transaction => transaction.items) ?? [];
+    ordersById.set(order.id, {
+      ...order,
+      transactions: (order.transactions ?? []).concat([
+        {
+          id: order.id,
+          type: order.type,
+          date,
+          amount: round(amount),
+          refund: true,
+          items,
+          summary: order.summary,
+          // Refunds go back to whatever the order was paid with
+          paymentMethod: order.transactions?.[0]?.paymentMethod,
+          originalDate: order.transactions?.find(transaction => !transaction.refund)?.date,
+        },
+      ]),
+    });
+  }
+  return [...ordersById.values()];
+}
+
+// Turns any mix of order history and returns files into orders, returns files are applied after all orders are known
+export function ordersFromExportFiles(files: string[]): Order[] {
+  let orders = files
+    .filter(text => detectExportFileType(text) === ExportFileType.OrderHistory)
+    .flatMap(text => ordersFromOrderHistory(text));
+  for (const text of files.filter(text => detectExportFileType(text) === ExportFileType.Returns)) {
+    orders = addRefundsFromReturns(orders, text);
+  }
+  return orders;
+}
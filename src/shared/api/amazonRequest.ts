@@ -0,0 +1,89 @@
+import { load } from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { debugLog } from '../storages/debugStorage';
+import { MarketplaceConfig } from './marketplace';
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+
+// Amazon showed a bot check instead of the page. Retrying right away only makes it worse.
+export class AmazonCaptchaError extends Error {
+  constructor(url: string) {
+    super('Amazon requested a CAPTCHA for ' + url);
+    this.name = 'AmazonCaptchaError';
+  }
+}
+
+// Amazon redirected to the sign in page, e.g. the session expired in the middle of a sync
+export class AmazonSignedOutError extends Error {
+  constructor(url: string) {
+    super('Amazon is not signed in for ' + url);
+    this.name = 'AmazonSignedOutError';
+  }
+}
+
+class RetryableError extends Error {}
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Fetches an Amazon page and parses it. Throttled and failed responses are retried with exponential backoff, while
+ * CAPTCHA and sign in pages throw so they aren't mistaken for a page without orders.
+ */
+export async function amazonRequest(url: string, config: MarketplaceConfig): Promise<CheerioAPI> {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      return await attemptRequest(url, config);
+    } catch (e) {
+      if (!(e instanceof RetryableError)) {
+        throw e;
+      }
+      lastError = e;
+      if (attempt < MAX_ATTEMPTS) {
+        // 1s, 2s, 4s with some jitter so parallel downloads don't retry in lockstep
+        const wait = BASE_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random() / 2);
+        await debugLog(`Retrying ${url} in ${Math.round(wait)}ms after: ${e}`);
+        await delay(wait);
+      }
+    }
+  }
+  throw lastError;
+}
+
+async function attemptRequest(url: string, config: MarketplaceConfig): Promise<CheerioAPI> {
+  let res: Response;
+  try {
+    res = await fetch(url);
+  } catch (e) {
+    throw new RetryableError('Network error: ' + e);
+  }
+  await debugLog('Got response ' + res.status + ' for ' + url);
+  if (isRetryableStatus(res.status)) {
+    throw new RetryableError('Amazon responded with ' + res.status);
+  }
+  if (res.url.includes('/ap/signin')) {
+    throw new AmazonSignedOutError(url);
+  }
+
+  const text = await res.text();
+  const $ = load(text);
+
+  if ($('form[action*="validateCaptcha"]').length > 0 || $('#captchacharacters').length > 0) {
+    throw new AmazonCaptchaError(url);
+  }
+  if ($('form[name="signIn"]').length > 0 || $(`h1:contains("${config.labels.signIn}")`).length > 0) {
+    throw new AmazonSignedOutError(url);
+  }
+  if (!res.ok) {
+    throw new Error('Amazon responded with ' + res.status + ' for ' + url);
+  }
+
+  return $;
+}
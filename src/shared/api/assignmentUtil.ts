@@ -0,0 +1,73 @@
+// Pairs rows with columns so the total cost is as low as possible (the Hungarian algorithm). A cost of Infinity means
+// the pair is not allowed. As many pairs as possible are made first, the cost only decides between equally many pairs.
+// Returns the column for every row, or -1 when the row is left unpaired.
+export function minCostAssignment(costs: number[][], columns: number): number[] {
+  const rows = costs.length;
+  if (rows === 0 || columns === 0) {
+    return new Array(rows).fill(-1);
+  }
+
+  // Every allowed cost has to be smaller than leaving a row unpaired, otherwise fewer pairs could come out cheaper
+  const allowed = costs.flat().filter(cost => Number.isFinite(cost));
+  const unpaired = (allowed.length > 0 ? Math.max(...allowed.map(Math.abs)) + 1 : 1) * (Math.max(rows, columns) + 1);
+
+  const size = Math.max(rows, columns);
+  const cost = (row: number, column: number) => {
+    const value = row < rows && column < columns ? costs[row][column] : Infinity;
+    return Number.isFinite(value) ? value : unpaired;
+  };
+
+  // 1-based as in the textbook version, index 0 is the column a new row starts from
+  const u = new Array(size + 1).fill(0);
+  const v = new Array(size + 1).fill(0);
+  const match = new Array(size + 1).fill(0);
+  const way = new Array(size + 1).fill(0);
+
+  for (let row = 1; row <= size; row++) {
+    match[0] = row;
+    let column = 0;
+    const minimum = new Array(size + 1).fill(Infinity);
+    const visited = new Array(size + 1).fill(false);
+    do {
+      visited[column] = true;
+      const current = match[column];
+      let delta = Infinity;
+      let next = 0;
+      for (let j = 1; j <= size; j++) {
+        if (visited[j]) continue;
+        const reduced = cost(current - 1, j - 1) - u[current] - v[j];
+        if (reduced < minimum[j]) {
+          minimum[j] = reduced;
+          way[j] = column;
+        }
+        if (minimum[j] < delta) {
+          delta = minimum[j];
+          next = j;
+        }
+      }
+      for (let j = 0; j <= size; j++) {
+        if (visited[j]) {
+          u[match[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minimum[j] -= delta;
+        }
+      }
+      column = next;
+    } while (match[column] !== 0);
+    do {
+      const previous = way[column];
+      match[column] = match[previous];
+      column = previous;
+    } while (column !== 0);
+  }
+
+  const result = new Array(rows).fill(-1);
+  for (let j = 1; j <= size; j++) {
+    const row = match[j] - 1;
+    if (row < rows && j - 1 < columns && Number.isFinite(costs[row][j - 1])) {
+      result[row] = j - 1;
+    }
+  }
+  return result;
+}
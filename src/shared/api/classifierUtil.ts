@@ -0,0 +1,142 @@
+import { Item } from './amazonApi';
+import { Category } from './monarchApi';
+
+// A past transaction and the category it was given in Monarch
+export type CategoryExample = {
+  tokens: string[];
+  category: Category;
+};
+
+type CategoryCounts = {
+  category: Category;
+  examples: number;
+  tokenCounts: Record<string, number>;
+  totalTokens: number;
+};
+
+export type CategoryModel = {
+  categories: CategoryCounts[];
+  examples: number;
+  vocabularySize: number;
+};
+
+export type CategorySuggestion = {
+  category: Category;
+  // Probability of the category given the tokens, between 0 and 1
+  confidence: number;
+};
+
+// Words in every note that say nothing about what was bought
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'with',
+  'from',
+  'sold',
+  'by',
+  'refund',
+  'original',
+  'charge',
+  'amazon',
+  'com',
+  'account',
+  'substituted',
+  'renews',
+  'pack',
+  'count',
+]);
+
+// Lower case words of three or more letters, without links, prices and numbers
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/https?:\/\/\S+/g, ' ')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length >= 3 && !/^\d+$/.test(token) && !STOP_WORDS.has(token));
+}
+
+// Notes written in suggest mode end with this line, it must not be learned from or the model would teach itself
+export const SUGGESTION_PREFIX = 'Suggested category: ';
+
+export function noteTokens(note: string): string[] {
+  return tokenize(
+    note
+      .split('\n')
+      .filter(line => !line.startsWith(SUGGESTION_PREFIX))
+      .join('\n'),
+  );
+}
+
+// e.g. "Suggested category: Baby (92%)"
+export function suggestionLine(suggestion: CategorySuggestion): string {
+  return SUGGESTION_PREFIX + suggestion.category.name + ' (' + Math.round(suggestion.confidence * 100) + '%)';
+}
+
+export function itemTokens(items: Item[]): string[] {
+  return items.flatMap(item => tokenize(item.title + ' ' + (item.seller ?? '')));
+}
+
+/**
+ * Multinomial naive Bayes over note tokens. Counts are kept per category and turned into probabilities with add-one
+ * smoothing when suggesting, so training is just counting.
+ */
+export function trainCategoryModel(examples: CategoryExample[]): CategoryModel {
+  const byCategory = new Map<string, CategoryCounts>();
+  const vocabulary = new Set<string>();
+  for (const example of examples) {
+    if (example.tokens.length === 0) continue;
+    const counts = byCategory.get(example.category.id) ?? {
+      category: example.category,
+      examples: 0,
+      tokenCounts: {},
+      totalTokens: 0,
+    };
+    counts.examples++;
+    for (const token of example.tokens) {
+      counts.tokenCounts[token] = (counts.tokenCounts[token] ?? 0) + 1;
+      counts.totalTokens++;
+      vocabulary.add(token);
+    }
+    byCategory.set(example.category.id, counts);
+  }
+
+  const categories = [...byCategory.values()];
+  return {
+    categories,
+    examples: categories.reduce((sum, counts) => sum + counts.examples, 0),
+    vocabularySize: vocabulary.size,
+  };
+}
+
+// The most likely category, or undefined when the model knows nothing or none of the tokens were seen in training
+export function suggestCategory(model: CategoryModel, tokens: string[]): CategorySuggestion | undefined {
+  const known = tokens.filter(token => model.categories.some(counts => counts.tokenCounts[token]));
+  if (model.categories.length === 0 || known.length === 0) {
+    return undefined;
+  }
+
+  const logScores = model.categories.map(counts => {
+    const denominator = Math.log(counts.totalTokens + model.vocabularySize);
+    return known.reduce(
+      (score, token) => score + Math.log((counts.tokenCounts[token] ?? 0) + 1) - denominator,
+      Math.log(counts.examples / model.examples),
+    );
+  });
+
+  // Normalize in log space so long titles don't underflow
+  const max = Math.max(...logScores);
+  const weights = logScores.map(score => Math.exp(score - max));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const best = weights.indexOf(Math.max(...weights));
+  return { category: model.categories[best].category, confidence: weights[best] / total };
+}
+
+export function confidentSuggestion(
+  model: CategoryModel,
+  items: Item[],
+  threshold: number,
+): CategorySuggestion | undefined {
+  const suggestion = suggestCategory(model, itemTokens(items));
+  return suggestion && suggestion.confidence >= threshold ? suggestion : undefined;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Marketplace, dateAfterLabel, getMarketplace, lastMoneyInText, moneyToNumber, parseDate } from './marketplace';
+
+const us = getMarketplace(Marketplace.US);
+const de = getMarketplace(Marketplace.DE);
+
+describe('parseDate', () => {
+  it('reads the date formats of the order pages', () => {
+    expect(parseDate('January 5, 2024', us)).toBe('2024-01-05');
+    expect(parseDate('5 January 2024', getMarketplace(Marketplace.UK))).toBe('2024-01-05');
+    expect(parseDate('5. März 2024', de)).toBe('2024-03-05');
+    expect(parseDate('Sept. 30, 2023', us)).toBe('2023-09-30');
+  });
+
+  it('ignores month-like words elsewhere in the text', () => {
+    expect(parseDate('5 April 2024 Refund summary', us)).toBe('2024-04-05');
+    expect(parseDate('Refunds may take a few days. Issued December 12, 2023', us)).toBe('2023-12-12');
+    expect(parseDate('Amazon market order placed 3 June 2024', us)).toBe('2024-06-03');
+  });
+
+  it('returns the text when there is no full date', () => {
+    expect(parseDate('Arriving Monday', us)).toBe('Arriving Monday');
+    expect(parseDate('May 2024', us)).toBe('May 2024');
+  });
+});
+
+describe('dateAfterLabel', () => {
+  const refunded = us.labels.itemRefunded;
+
+  it('reads the date after the refund label of an item or shipment', () => {
+    expect(dateAfterLabel('Refund issued on March 3, 2024', refunded, us)).toBe('2024-03-03');
+    expect(dateAfterLabel('Return complete Refunded: Apr 12, 2024', refunded, us)).toBe('2024-04-12');
+    expect(dateAfterLabel('Erstattet am 5. Mai 2024', de.labels.itemRefunded, de)).toBe('2024-05-05');
+  });
+
+  it('does not take dates from the rest of the status line', () => {
+    expect(
+      dateAfterLabel('Delivered January 8, 2024 Return complete Your refund summary may take 5 days', refunded, us),
+    ).toBeUndefined();
+    const summary = 'Return complete Your refund of $12.34 was issued on May 2, 2024';
+    expect(dateAfterLabel(summary, refunded, us)).toBeUndefined();
+  });
+});
+
+describe('moneyToNumber', () => {
+  it('reads amounts with the separators of the marketplace', () => {
+    expect(moneyToNumber('$1,234.56', us)).toBe(1234.56);
+    expect(moneyToNumber('1.234,56 €', de)).toBe(1234.56);
+    expect(moneyToNumber('EUR 12,30', de)).toBe(12.3);
+  });
+
+  it('keeps the sign only when asked to', () => {
+    expect(moneyToNumber('-$5.00', us)).toBe(5);
+    expect(moneyToNumber('-$5.00', us, false)).toBe(-5);
+    expect(moneyToNumber('-5,00 €', de, false)).toBe(-5);
+  });
+});
+
+describe('lastMoneyInText', () => {
+  it('takes the last amount in the line', () => {
+    expect(lastMoneyInText('Items shipped: January 5, 2024 - Visa ending in 1234: $1,012.34', us)).toBe(1012.34);
+    expect(lastMoneyInText('Versandte Artikel: 5. Januar 2024 - Visa: 12,34 €', de)).toBe(12.34);
+    expect(lastMoneyInText('Visa ending in 1234', us)).toBeNaN();
+  });
+});
@@ -0,0 +1,272 @@
+export enum Marketplace {
+  US = 'us',
+  CA = 'ca',
+  UK = 'uk',
+  DE = 'de',
+  AU = 'au',
+}
+
+export type MarketplaceConfig = {
+  name: string;
+  baseUrl: string;
+  // Used to format amounts in notes, e.g. en-US and USD gives $12.34
+  locale: string;
+  currency: string;
+  decimalSeparator: '.' | ',';
+  // Full month names, January first, as they appear on order pages
+  months: string[];
+  labels: {
+    signIn: string;
+    itemsShipped: string;
+    refundCompleted: string;
+    // Any of these on the order details page means a refund can still show up
+    refundPending: string[];
+    // Shown on an item or its shipment once it was returned and refunded
+    itemRefunded: string[];
+    giftCard: string;
+    paymentMethod: string;
+    soldBy: string;
+    returnEligible: string;
+    // Grocery orders replace items that are out of stock with a similar one, or leave them out and don't charge them
+    substituted: string[];
+    unavailable: string[];
+    // Names the store of a grocery order that came from Whole Foods rather than Amazon Fresh
+    wholeFoods: string[];
+    // On the memberships and subscriptions page, before the date of the next charge
+    renewal: string[];
+    // Before the date the membership or subscription started
+    memberSince: string[];
+    // Before how often it is billed, e.g. "Billing period: Annual"
+    billingPeriod: string[];
+    // Whole words in the billing period, or next to the price when there is none, of plans billed once a year.
+    // Anything else is billed monthly.
+    yearly: string[];
+  };
+  // Row labels in the order summary, matched case-insensitively. Anything else with a negative amount is a promotion.
+  summaryLabels: {
+    subtotal: string[];
+    shipping: string[];
+    beforeTax: string[];
+    tax: string[];
+    giftWrap: string[];
+    // Driver tips on Amazon Fresh and Whole Foods deliveries
+    tip: string[];
+    total: string[];
+  };
+};
+
+const ENGLISH_MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+const ENGLISH_LABELS = {
+  signIn: 'Sign in',
+  itemsShipped: 'Items shipped',
+  refundCompleted: 'Refund: Completed',
+  refundPending: ['Return started', 'Refund: Pending', 'Return in progress', 'Replacement ordered'],
+  itemRefunded: ['Return complete', 'Refunded', 'Refund issued'],
+  giftCard: 'Gift Card',
+  paymentMethod: 'Payment Method',
+  soldBy: 'Sold by',
+  returnEligible: 'Return eligible through',
+  substituted: ['Substituted with', 'Replaced with', 'Substitution'],
+  unavailable: ['Item unavailable', 'Not available', 'Out of stock'],
+  wholeFoods: ['Whole Foods Market'],
+  renewal: ['Renews on', 'Next payment', 'Next billing date', 'Renewal date'],
+  memberSince: ['Member since', 'Subscribed since', 'Started on', 'Start date'],
+  billingPeriod: ['Billing period', 'Billing frequency', 'Billing cycle'],
+  yearly: ['year', 'yearly', 'annual', 'annually', '12 months'],
+};
+
+const ENGLISH_SUMMARY_LABELS = {
+  subtotal: ['Item(s) Subtotal'],
+  shipping: ['Shipping & Handling', 'Postage & Packing'],
+  beforeTax: ['Total before tax', 'Total before VAT'],
+  tax: ['tax', 'VAT', 'GST', 'HST', 'PST'],
+  giftWrap: ['Gift wrap', 'Gift-wrap'],
+  tip: ['Tip'],
+  total: ['Grand Total', 'Order Total'],
+};
+
+const MARKETPLACES: Record<Marketplace, MarketplaceConfig> = {
+  [Marketplace.US]: {
+    name: 'amazon.com',
+    baseUrl: 'https://www.amazon.com',
+    locale: 'en-US',
+    currency: 'USD',
+    decimalSeparator: '.',
+    months: ENGLISH_MONTHS,
+    labels: ENGLISH_LABELS,
+    summaryLabels: ENGLISH_SUMMARY_LABELS,
+  },
+  [Marketplace.CA]: {
+    name: 'amazon.ca',
+    baseUrl: 'https://www.amazon.ca',
+    locale: 'en-CA',
+    currency: 'CAD',
+    decimalSeparator: '.',
+    months: ENGLISH_MONTHS,
+    labels: ENGLISH_LABELS,
+    summaryLabels: ENGLISH_SUMMARY_LABELS,
+  },
+  [Marketplace.UK]: {
+    name: 'amazon.co.uk',
+    baseUrl: 'https://www.amazon.co.uk',
+    locale: 'en-GB',
+    currency: 'GBP',
+    decimalSeparator: '.',
+    months: ENGLISH_MONTHS,
+    labels: ENGLISH_LABELS,
+    summaryLabels: ENGLISH_SUMMARY_LABELS,
+  },
+  [Marketplace.DE]: {
+    name: 'amazon.de',
+    baseUrl: 'https://www.amazon.de',
+    locale: 'de-DE',
+    currency: 'EUR',
+    decimalSeparator: ',',
+    months: [
+      'Januar',
+      'Februar',
+      'März',
+      'April',
+      'Mai',
+      'Juni',
+      'Juli',
+      'August',
+      'September',
+      'Oktober',
+      'November',
+      'Dezember',
+    ],
+    labels: {
+      signIn: 'Anmelden',
+      itemsShipped: 'Versandte Artikel',
+      refundCompleted: 'Erstattung: Abgeschlossen',
+      refundPending: ['Rücksendung gestartet', 'Erstattung: Ausstehend', 'Ersatz bestellt'],
+      itemRefunded: ['Rücksendung abgeschlossen', 'Erstattet', 'Erstattung ausgestellt'],
+      giftCard: 'Geschenkgutschein',
+      paymentMethod: 'Zahlungsart',
+      soldBy: 'Verkauf durch',
+      returnEligible: 'Rückgabe möglich bis',
+      substituted: ['Ersetzt durch', 'Ersatzartikel'],
+      unavailable: ['Nicht verfügbar', 'Nicht vorrätig'],
+      wholeFoods: ['Whole Foods Market'],
+      renewal: ['Verlängert sich am', 'Nächste Zahlung', 'Verlängerungsdatum'],
+      memberSince: ['Mitglied seit', 'Abonniert seit', 'Startdatum'],
+      billingPeriod: ['Abrechnungszeitraum', 'Zahlungsintervall'],
+      yearly: ['Jahr', 'jährlich', 'Jahresmitgliedschaft', '12 Monate'],
+    },
+    summaryLabels: {
+      subtotal: ['Zwischensumme'],
+      shipping: ['Verpackung & Versand', 'Versand'],
+      beforeTax: ['Summe ohne MwSt', 'Gesamtsumme ohne MwSt'],
+      tax: ['MwSt', 'USt'],
+      giftWrap: ['Geschenkverpackung'],
+      tip: ['Trinkgeld'],
+      total: ['Gesamtsumme', 'Summe'],
+    },
+  },
+  [Marketplace.AU]: {
+    name: 'amazon.com.au',
+    baseUrl: 'https://www.amazon.com.au',
+    locale: 'en-AU',
+    currency: 'AUD',
+    decimalSeparator: '.',
+    months: ENGLISH_MONTHS,
+    labels: ENGLISH_LABELS,
+    summaryLabels: ENGLISH_SUMMARY_LABELS,
+  },
+};
+
+export function getMarketplace(marketplace: Marketplace | undefined): MarketplaceConfig {
+  // Settings saved before marketplaces existed don't have one, those are all amazon.com
+  return MARKETPLACES[marketplace ?? Marketplace.US] ?? MARKETPLACES[Marketplace.US];
+}
+
+export function allMarketplaces(): [Marketplace, MarketplaceConfig][] {
+  return Object.values(Marketplace).map(marketplace => [marketplace, MARKETPLACES[marketplace]]);
+}
+
+export function moneyToNumber(money: string, marketplace: MarketplaceConfig, absoluteValue = true) {
+  const thousandsSeparator = marketplace.decimalSeparator === '.' ? ',' : '.';
+  const cleaned = (money ?? '')
+    .replace(absoluteValue ? /[^\d.,]/g : /[^\d.,-]/g, '')
+    .replaceAll(thousandsSeparator, '')
+    .replace(marketplace.decimalSeparator, '.');
+  return parseFloat(cleaned);
+}
+
+export function formatMoney(amount: number, marketplace: MarketplaceConfig): string {
+  return new Intl.NumberFormat(marketplace.locale, { style: 'currency', currency: marketplace.currency }).format(
+    amount,
+  );
+}
+
+// Finds the last amount in a line of text, e.g. "Visa ending in 1234: $12.34" or "Visa: 12,34 €"
+export function lastMoneyInText(text: string, marketplace: MarketplaceConfig): number {
+  const pattern = marketplace.decimalSeparator === '.' ? /\d[\d,]*\.\d{2}/g : /\d[\d.]*,\d{2}/g;
+  const matches = text.match(pattern);
+  if (!matches) {
+    return NaN;
+  }
+  return moneyToNumber(matches[matches.length - 1], marketplace);
+}
+
+// The month a word names, in full or abbreviated as in "Jan", "Sept." or "Mär". Three letters at least, so "Ma" is no month.
+function monthOfWord(word: string, marketplace: MarketplaceConfig): number {
+  const lower = word.toLowerCase();
+  return lower.length < 3 ? -1 : marketplace.months.findIndex(name => name.toLowerCase().startsWith(lower));
+}
+
+// Converts a localized date such as "January 5, 2024", "5 January 2024" or "5. Januar 2024" to YYYY-MM-DD.
+// Only a month name right before the year counts, so words like "may" or "summary" elsewhere in the text are ignored.
+// Returns the original text when it can't be parsed so it still shows up in debug logs and exports.
+export function parseDate(text: string, marketplace: MarketplaceConfig): string {
+  const trimmed = text?.trim() ?? '';
+  const tokens = [...trimmed.matchAll(/\p{L}+|\d+/gu)].map(match => match[0]);
+  const isDay = (token: string | undefined) => !!token && /^\d{1,2}$/.test(token) && +token >= 1 && +token <= 31;
+
+  for (let year = 0; year < tokens.length; year++) {
+    if (!/^\d{4}$/.test(tokens[year])) continue;
+    // "5 January 2024" has the month right before the year, "January 5, 2024" has the day in between
+    for (const position of [year - 1, year - 2]) {
+      const month = position >= 0 ? monthOfWord(tokens[position], marketplace) : -1;
+      if (month === -1) continue;
+      const day = position + 1 < year ? tokens[position + 1] : tokens[position - 1];
+      if (isDay(day)) {
+        return `${tokens[year]}-${String(month + 1).padStart(2, '0')}-${day.padStart(2, '0')}`;
+      }
+    }
+  }
+  return trimmed;
+}
+
+// The date right after one of the labels, e.g. "Refund issued on March 3, 2024" for "Refund issued".
+// Undefined when none of the labels is followed by a full date.
+export function dateAfterLabel(text: string, labels: string[], marketplace: MarketplaceConfig): string | undefined {
+  const lower = text.toLowerCase();
+  for (const label of labels) {
+    const index = lower.indexOf(label.toLowerCase());
+    if (index === -1) continue;
+    const token = text
+      .slice(index + label.length)
+      .match(/^[^\p{L}\d]*(?:\p{Ll}+\s+)?((?:\d{1,2}\.?\s+\p{L}+\.?|\p{L}+\.?\s+\d{1,2},?)\s+\d{4})/u)?.[1];
+    const date = token ? parseDate(token, marketplace) : undefined;
+    if (date && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return date;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Order } from './amazonApi';
+import { minCostAssignment } from './assignmentUtil';
+import { matchTransactions, needsReview } from './matchUtil';
+import { Transaction } from './monarchApi';
+
+function transaction(id: string, date: string, amount: number): Transaction {
+  return { id, date, amount, notes: '' };
+}
+
+function order(id: string, date: string, amount: number): Order {
+  return { id, date, transactions: [{ id, date, amount, refund: false, items: [{ title: id, price: amount }] }] };
+}
+
+function pairs(transactions: Transaction[], orders: Order[]) {
+  return Object.fromEntries(
+    matchTransactions(transactions, orders, false).map(match => [match.monarch.id, match.amazon.id]),
+  );
+}
+
+describe('matchTransactions', () => {
+  // Taking the closest charge in turn, t1 would take the charge on the 7th and the one on the 2nd is too far for t2
+  const transactions = [transaction('t1', '2024-01-06', -20), transaction('t2', '2024-01-10', -20)];
+  const orders = [order('early', '2024-01-02', 20), order('late', '2024-01-07', 20)];
+
+  it('does not let an earlier transaction take the charge of a later one with the same amount', () => {
+    expect(pairs(transactions, orders)).toEqual({ t1: 'early', t2: 'late' });
+  });
+
+  it('matches the same way whatever order the transactions and orders come in', () => {
+    expect(pairs([...transactions].reverse(), [...orders].reverse())).toEqual(pairs(transactions, orders));
+  });
+});
+
+describe('combined and split matches', () => {
+  it('holds charges combined into one transaction for review', () => {
+    const matches = matchTransactions(
+      [transaction('t1', '2024-01-05', -50)],
+      [order('a', '2024-01-05', 20), order('b', '2024-01-05', 30)],
+      false,
+    );
+    expect(matches).toHaveLength(1);
+    expect(matches[0].combined).toHaveLength(2);
+    expect(needsReview(matches[0])).toBe(true);
+  });
+
+  it('holds a charge split across transactions for review', () => {
+    const matches = matchTransactions(
+      [transaction('t1', '2024-01-05', -20), transaction('t2', '2024-01-05', -30)],
+      [order('a', '2024-01-05', 50)],
+      false,
+    );
+    expect(matches).toHaveLength(2);
+    expect(matches.every(match => match.splitWith && needsReview(match))).toBe(true);
+  });
+});
+
+describe('minCostAssignment', () => {
+  it('leaves the extra rows unpaired when there are more rows than columns', () => {
+    expect(
+      minCostAssignment(
+        [
+          [1, Infinity],
+          [2, 3],
+          [Infinity, 1],
+        ],
+        2,
+      ),
+    ).toEqual([0, -1, 1]);
+  });
+
+  it('never pairs a disallowed cell and prefers more pairs over a lower cost', () => {
+    expect(
+      minCostAssignment(
+        [
+          [1, Infinity],
+          [1, 100],
+        ],
+        2,
+      ),
+    ).toEqual([0, 1]);
+    expect(minCostAssignment([[Infinity, Infinity]], 2)).toEqual([-1]);
+  });
+});
@@ -1,26 +1,234 @@
 import { Order, OrderTransaction } from './amazonApi';
 import { Transaction } from './monarchApi';
+import { paymentMethodKey } from './paymentMethod';
+import { linkRefundsToPurchases } from './refundUtil';
+import { findSubset } from './subsetUtil';
+import { minCostAssignment } from './assignmentUtil';
 
 export type MatchedTransaction = {
   monarch: Transaction;
   amazon: OrderTransaction;
+  // For refunds, the Monarch transaction of the purchase that was refunded
+  original?: Transaction;
+  // Several Amazon charges that were billed together as this one Monarch transaction, amazon has all of their items
+  combined?: OrderTransaction[];
+  // The other Monarch transactions this Amazon charge was split across
+  splitWith?: Transaction[];
+  // How sure the match is, from 0 to 1, and why
+  confidence: number;
+  reasons: string[];
 };
 
-const DAYS_7 = 1000 * 60 * 60 * 24 * 7;
+export type MatchOptions = {
+  // How many days a Monarch transaction can be from the Amazon charge
+  windowDays: number;
+  // How far the amounts can be apart, the larger of the two tolerances is used
+  amountTolerance: number;
+  amountTolerancePercent: number;
+  // Only match Monarch transactions on or after the Amazon charge date, banks never post a charge early
+  chargeAfterOrderOnly: boolean;
+  // Matches less confident than this wait for review instead of being written to Monarch
+  confidenceThreshold: number;
+};
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = {
+  windowDays: 7,
+  amountTolerance: 0,
+  amountTolerancePercent: 0,
+  chargeAfterOrderOnly: false,
+  confidenceThreshold: 0.5,
+};
+
+// Links made by hand, by Monarch transaction id. They win over anything the matcher would decide.
+export type MatchLinks = {
+  // Monarch transaction id to the Amazon order id it belongs to
+  pinned: Record<string, string>;
+  // Monarch transactions that are not Amazon purchases, or that were matched wrong and should be left alone
+  neverMatch: string[];
+};
+
+const DAY = 1000 * 60 * 60 * 24;
+
+// Combined or split charges are rare and the search grows quickly, so only look at a few nearby candidates
+const MAX_PARTS = 4;
+const MAX_PART_CANDIDATES = 12;
+// Among that many nearby amounts some subset often adds up by coincidence, so these always go to review by default
+const SUBSET_PENALTY = 0.55;
+
+type FlatTransaction = OrderTransaction & { accountId?: string; used: boolean };
+
+function amountTolerance(amazonAmount: number, options: MatchOptions) {
+  return Math.max(options.amountTolerance ?? 0, (Math.abs(amazonAmount) * (options.amountTolerancePercent ?? 0)) / 100);
+}
+
+// Amounts are in dollars, so allow for floating point error when comparing them
+function amountsMatch(monarchAmount: number, amazonAmount: number, options: MatchOptions) {
+  return Math.abs(monarchAmount - amazonAmount) <= amountTolerance(amazonAmount, options) + 0.001;
+}
+
+// Everything but the amount: the date window, the charge direction and the mapped payment account
+function canPair(monarch: Transaction, amazon: FlatTransaction, window: number, options: MatchOptions) {
+  const monarchTime = new Date(monarch.date).getTime();
+  const orderTime = new Date(amazon.date).getTime();
+  if (isNaN(orderTime) || isNaN(monarchTime)) return false;
+  if (amazon.accountId && monarch.account?.id !== amazon.accountId) return false;
+
+  const lower = options.chargeAfterOrderOnly ? orderTime : orderTime - window;
+  return monarchTime >= lower && monarchTime <= orderTime + window;
+}
+
+function dateDistance(a: { date: string }, b: { date: string }) {
+  return Math.abs(new Date(a.date).getTime() - new Date(b.date).getTime());
+}
 
+// Starts out certain and loses confidence for everything that makes a mistake more likely
+function scoreMatch(
+  monarch: Transaction,
+  amazon: FlatTransaction,
+  rivals: number,
+  parts: { combined?: number; split?: number } = {},
+): { confidence: number; reasons: string[] } {
+  let confidence = 1;
+  const reasons: string[] = [];
+
+  const difference = Math.abs(monarch.amount - amazon.amount);
+  if (difference < 0.005) {
+    reasons.push('Amount exact');
+  } else {
+    reasons.push('Amount off by ' + difference.toFixed(2));
+    confidence -= 0.15;
+  }
+
+  const days = Math.round(dateDistance(monarch, amazon) / DAY);
+  reasons.push(days === 0 ? 'Same day' : days === 1 ? '1 day apart' : `${days} days apart`);
+  confidence -= Math.min(0.3, days * 0.03);
+
+  if (rivals > 0) {
+    reasons.push(`${rivals} other ${rivals === 1 ? 'candidate' : 'candidates'} with the same amount`);
+    confidence -= Math.min(0.4, rivals * 0.15);
+  }
+  if (amazon.accountId) {
+    reasons.push('Payment method is mapped to this account');
+  }
+  if (parts.combined) {
+    reasons.push(`Combined from ${parts.combined} Amazon charges`);
+    confidence -= SUBSET_PENALTY;
+  }
+  if (parts.split) {
+    reasons.push(`Split across ${parts.split} transactions`);
+    confidence -= SUBSET_PENALTY;
+  }
+
+  return { confidence: Math.round(Math.max(0, confidence) * 100) / 100, reasons };
+}
+
+// Low confidence matches are only written to Monarch once they are approved
+export function needsReview(match: MatchedTransaction, options: MatchOptions = DEFAULT_MATCH_OPTIONS): boolean {
+  return match.confidence < (options.confidenceThreshold ?? DEFAULT_MATCH_OPTIONS.confidenceThreshold);
+}
+
+/**
+ * Pairs single Monarch transactions with single Amazon charges of the same amount. Instead of letting every transaction
+ * take the closest charge in turn, which lets an earlier transaction take the charge a later one needed when several
+ * orders have the same amount, the pairs are picked together so the total distance in days is as small as possible.
+ */
+function assignPairs(
+  monarchTransactions: Transaction[],
+  orderTransactions: FlatTransaction[],
+  window: number,
+  options: MatchOptions,
+): [number, number][] {
+  const candidates = monarchTransactions.map(monarch =>
+    orderTransactions
+      .map((amazon, index) => ({ amazon, index }))
+      .filter(
+        ({ amazon }) =>
+          canPair(monarch, amazon, window, options) && amountsMatch(monarch.amount, amazon.amount, options),
+      )
+      .map(({ amazon, index }) => ({
+        index,
+        // Days apart, with the amount difference breaking ties between charges on the same day
+        cost: dateDistance(monarch, amazon) / DAY + Math.abs(monarch.amount - amazon.amount),
+      })),
+  );
+
+  // Transactions only compete with the ones that share a candidate, so solve each of those groups on its own to keep
+  // the cost matrices small
+  const groups = new Map<number, number[]>();
+  const groupOfCharge = new Map<number, number>();
+  const groupOfTransaction = monarchTransactions.map((_, index) => index);
+  const root = (index: number): number =>
+    groupOfTransaction[index] === index ? index : (groupOfTransaction[index] = root(groupOfTransaction[index]));
+  candidates.forEach((edges, monarchIndex) => {
+    for (const { index } of edges) {
+      const other = groupOfCharge.get(index);
+      if (other === undefined) {
+        groupOfCharge.set(index, monarchIndex);
+      } else {
+        groupOfTransaction[root(monarchIndex)] = root(other);
+      }
+    }
+  });
+  candidates.forEach((edges, monarchIndex) => {
+    if (edges.length === 0) return;
+    const group = root(monarchIndex);
+    groups.set(group, (groups.get(group) ?? []).concat([monarchIndex]));
+  });
+
+  const pairs: [number, number][] = [];
+  for (const rows of groups.values()) {
+    const columns = [...new Set(rows.flatMap(row => candidates[row].map(({ index }) => index)))].sort((a, b) => a - b);
+    const costs = rows.map(row =>
+      columns.map(column => candidates[row].find(({ index }) => index === column)?.cost ?? Infinity),
+    );
+    minCostAssignment(costs, columns.length).forEach((column, row) => {
+      if (column !== -1) pairs.push([rows[row], columns[column]]);
+    });
+  }
+  return pairs.sort((a, b) => a[0] - b[0]);
+}
+
+// One Amazon charge made of several, with every item so the note lists all of them
+function combineCharges(parts: FlatTransaction[]): FlatTransaction {
+  const sorted = [...parts].sort((a, b) => a.date.localeCompare(b.date));
+  return {
+    ...sorted[0],
+    id: [...new Set(sorted.map(part => part.id))].join(', '),
+    amount: Math.round(sorted.reduce((sum, part) => sum + part.amount, 0) * 100) / 100,
+    items: sorted.flatMap(part => part.items),
+  };
+}
+
+// paymentAccounts maps payment method keys (e.g. "Visa 1234") to the Monarch account id they are charged to
 export function matchTransactions(
   transactions: Transaction[],
   orders: Order[],
   override: boolean,
+  paymentAccounts: Record<string, string> = {},
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS,
+  links: MatchLinks = { pinned: {}, neverMatch: [] },
 ): MatchedTransaction[] {
-  const orderTransactions = orders.flatMap(order => {
+  return pairTransactions(transactions, orders, override, paymentAccounts, options, links).matches;
+}
+
+function pairTransactions(
+  transactions: Transaction[],
+  orders: Order[],
+  override: boolean,
+  paymentAccounts: Record<string, string>,
+  options: MatchOptions,
+  links: MatchLinks,
+) {
+  const window = (options.windowDays ?? DEFAULT_MATCH_OPTIONS.windowDays) * DAY;
+
+  const orderTransactions: FlatTransaction[] = orders.flatMap(order => {
     return (
       order.transactions?.map(transaction => {
+        const paymentKey = paymentMethodKey(transaction.paymentMethod);
         return {
-          items: transaction.items,
-          refund: transaction.refund,
+          ...transaction,
           amount: transaction.refund ? transaction.amount : transaction.amount * -1,
-          date: transaction.date,
+          accountId: paymentKey ? paymentAccounts[paymentKey] : undefined,
           used: false,
           id: order.id,
         };
@@ -28,54 +236,251 @@ export function matchTransactions(
     );
   });
 
-  // find monarch transactions that match amazon orders. don't allow duplicates
-  const monarchAmazonTransactions = [];
+  // Pinned transactions take the closest charge of their order, in the right direction. Pins are written even when the
+  // transaction already has notes, since they were made on purpose.
+  const pinnedMatches: MatchedTransaction[] = [];
+  const pinnedPairs: { monarch: Transaction; amazon: OrderTransaction }[] = [];
   for (const monarchTransaction of transactions) {
-    const monarchDate = new Date(monarchTransaction.date);
-    let closestAmazon = null;
-    let closestDistance = null;
-    for (const amazonTransaction of orderTransactions) {
-      // we already matched this transaction
-      if (amazonTransaction.used) continue;
-
-      const orderDate = new Date(amazonTransaction.date);
-      if (isNaN(orderDate.getTime())) continue;
-
-      // look for Monarch transactions that are within 7 days of the Amazon transaction
-      const lower = orderDate.getTime() - DAYS_7;
-      const upper = orderDate.getTime() + DAYS_7;
-      const matchesDate = monarchDate.getTime() >= lower && monarchDate.getTime() <= upper;
-
-      // get the closest transaction
-      const distance = Math.abs(monarchDate.getTime() - orderDate.getTime());
-      if (
-        monarchTransaction.amount === amazonTransaction.amount &&
-        matchesDate &&
-        (closestDistance === null || distance < closestDistance)
-      ) {
-        closestAmazon = amazonTransaction;
-        closestDistance = distance;
-      }
+    const orderId = links.pinned?.[monarchTransaction.id];
+    if (!orderId) continue;
+    const charge = orderTransactions
+      .filter(amazon => !amazon.used && amazon.id === orderId && amazon.refund === monarchTransaction.amount > 0)
+      .sort((a, b) => dateDistance(a, monarchTransaction) - dateDistance(b, monarchTransaction))[0];
+    if (!charge) continue;
+
+    charge.used = true;
+    pinnedPairs.push({ monarch: monarchTransaction, amazon: charge });
+    pinnedMatches.push({ monarch: monarchTransaction, amazon: charge, confidence: 1, reasons: ['Linked by you'] });
+  }
+  const skipped = new Set([...Object.keys(links.pinned ?? {}), ...(links.neverMatch ?? [])]);
+
+  // Sort both sides so the result doesn't depend on the order the APIs returned them in
+  const monarchTransactions = transactions
+    .filter(transaction => !skipped.has(transaction.id))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+  const charges = orderTransactions
+    .filter(amazon => !amazon.used)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id) || a.amount - b.amount);
+
+  // Other transactions and charges this pair could have been made of instead
+  const rivalsOf = (monarch: Transaction, amazon: FlatTransaction) =>
+    charges.filter(
+      other =>
+        other !== amazon &&
+        canPair(monarch, other, window, options) &&
+        amountsMatch(monarch.amount, other.amount, options),
+    ).length +
+    monarchTransactions.filter(
+      other =>
+        other !== monarch &&
+        canPair(other, amazon, window, options) &&
+        amountsMatch(other.amount, amazon.amount, options),
+    ).length;
+
+  // find monarch transactions that match amazon orders. don't allow duplicates
+  const monarchAmazonTransactions: MatchedTransaction[] = [];
+  // every pairing, including the ones skipped because of existing notes, so refunds can find their purchase
+  // parts are the charges behind a combined charge
+  const allPairs: { monarch: Transaction; amazon: OrderTransaction; parts?: OrderTransaction[] }[] = [...pinnedPairs];
+  for (const [monarchIndex, amazonIndex] of assignPairs(monarchTransactions, charges, window, options)) {
+    const monarchTransaction = monarchTransactions[monarchIndex];
+    const amazonTransaction = charges[amazonIndex];
+    allPairs.push({ monarch: monarchTransaction, amazon: amazonTransaction });
+    // Only match if the transaction doesn't have notes
+    if (override || !monarchTransaction.notes) {
+      monarchAmazonTransactions.push({
+        monarch: monarchTransaction,
+        amazon: amazonTransaction,
+        ...scoreMatch(monarchTransaction, amazonTransaction, rivalsOf(monarchTransaction, amazonTransaction)),
+      });
+    }
+    amazonTransaction.used = true;
+  }
+
+  // Transactions that don't have a single match can still be several Amazon charges billed together
+  const unmatched = monarchTransactions.filter(transaction => !allPairs.some(pair => pair.monarch === transaction));
+  const combined: MatchedTransaction[] = [];
+  for (const monarchTransaction of unmatched) {
+    const candidates = charges
+      .filter(amazon => !amazon.used && canPair(monarchTransaction, amazon, window, options))
+      .sort(
+        (a, b) => dateDistance(a, monarchTransaction) - dateDistance(b, monarchTransaction) || a.id.localeCompare(b.id),
+      )
+      .slice(0, MAX_PART_CANDIDATES);
+    const parts = findSubset(
+      monarchTransaction.amount,
+      candidates,
+      amazon => amazon.amount,
+      amountTolerance(monarchTransaction.amount, options),
+      MAX_PARTS,
+    );
+    if (!parts) continue;
+
+    parts.forEach(part => (part.used = true));
+    const amazon = combineCharges(parts);
+    allPairs.push({ monarch: monarchTransaction, amazon, parts });
+    if (override || !monarchTransaction.notes) {
+      combined.push({
+        monarch: monarchTransaction,
+        amazon,
+        combined: parts,
+        ...scoreMatch(monarchTransaction, amazon, 0, { combined: parts.length }),
+      });
     }
+  }
+
+  // ... or one Amazon charge split across several transactions
+  const matchedMonarch = new Set(allPairs.map(pair => pair.monarch.id));
+  for (const amazonTransaction of charges.filter(amazon => !amazon.used)) {
+    const candidates = monarchTransactions
+      .filter(monarch => !matchedMonarch.has(monarch.id) && canPair(monarch, amazonTransaction, window, options))
+      .sort(
+        (a, b) => dateDistance(a, amazonTransaction) - dateDistance(b, amazonTransaction) || a.id.localeCompare(b.id),
+      )
+      .slice(0, MAX_PART_CANDIDATES);
+    const parts = findSubset(
+      amazonTransaction.amount,
+      candidates,
+      monarch => monarch.amount,
+      amountTolerance(amazonTransaction.amount, options),
+      MAX_PARTS,
+    );
+    if (!parts) continue;
 
-    if (closestAmazon) {
-      // Only match if the transaction doesn't have notes
+    amazonTransaction.used = true;
+    for (const monarchTransaction of parts) {
+      matchedMonarch.add(monarchTransaction.id);
+      allPairs.push({ monarch: monarchTransaction, amazon: amazonTransaction });
       if (override || !monarchTransaction.notes) {
-        monarchAmazonTransactions.push({
+        combined.push({
           monarch: monarchTransaction,
-          amazon: closestAmazon,
+          amazon: amazonTransaction,
+          splitWith: parts.filter(part => part !== monarchTransaction),
+          ...scoreMatch(monarchTransaction, amazonTransaction, 0, { split: parts.length }),
         });
       }
-      closestAmazon.used = true;
     }
   }
 
-  return monarchAmazonTransactions
-    .map(transaction => {
-      return {
-        amazon: transaction.amazon,
-        monarch: transaction.monarch,
-      };
-    })
-    .sort((a, b) => a.monarch.id.localeCompare(b.monarch.id));
+  const matches = [...pinnedMatches, ...monarchAmazonTransactions, ...combined].sort((a, b) =>
+    a.monarch.id.localeCompare(b.monarch.id),
+  );
+  return { matches: linkRefundsToPurchases(matches, allPairs), pairs: allPairs, charges: orderTransactions };
+}
+
+export enum UnmatchedSide {
+  Monarch = 'monarch',
+  Amazon = 'amazon',
+}
+
+export type UnmatchedEntry = {
+  side: UnmatchedSide;
+  // Monarch transaction id or Amazon order id
+  id: string;
+  date: string;
+  // Signed like Monarch amounts, purchases are negative
+  amount: number;
+  description: string;
+  reason: string;
+};
+
+/**
+ * Everything the last sync did not write a note for, on both sides, with the most likely reason. Reasons are checked
+ * from the most to the least specific: a pair skipped because of existing notes, a charge with the right amount but
+ * too far away, a charge close by with a different amount, and finally nothing at all.
+ */
+export function unmatchedReport(
+  transactions: Transaction[],
+  orders: Order[],
+  override: boolean,
+  paymentAccounts: Record<string, string> = {},
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS,
+  links: MatchLinks = { pinned: {}, neverMatch: [] },
+): UnmatchedEntry[] {
+  const window = (options.windowDays ?? DEFAULT_MATCH_OPTIONS.windowDays) * DAY;
+  const { matches, pairs, charges } = pairTransactions(transactions, orders, override, paymentAccounts, options, links);
+  const written = new Set(matches.map(match => match.monarch.id));
+  const pairedCharges = new Set<OrderTransaction>(pairs.flatMap(pair => [pair.amazon, ...(pair.parts ?? [])]));
+  const days = (a: { date: string }, b: { date: string }) => Math.round(dateDistance(a, b) / DAY);
+
+  const entries: UnmatchedEntry[] = [];
+  for (const monarch of transactions) {
+    if (written.has(monarch.id)) continue;
+
+    let reason: string;
+    const pair = pairs.find(pair => pair.monarch === monarch);
+    const sameAmount = charges.filter(amazon => amountsMatch(monarch.amount, amazon.amount, options));
+    const inWindow = charges.filter(amazon => canPair(monarch, amazon, window, options));
+    if (links.neverMatch?.includes(monarch.id)) {
+      reason = 'Marked to never match';
+    } else if (pair) {
+      reason = 'Notes already present';
+    } else if (links.pinned?.[monarch.id]) {
+      reason = `Linked to order ${links.pinned[monarch.id]}, which has no charge in that direction`;
+    } else if (sameAmount.length > 0) {
+      const closest = sameAmount.sort((a, b) => dateDistance(a, monarch) - dateDistance(b, monarch))[0];
+      reason = inWindow.includes(closest)
+        ? `Charge with this amount (order ${closest.id}) was already matched to another transaction`
+        : `Outside window, closest charge with this amount is ${days(closest, monarch)} days away (order ${
+            closest.id
+          })`;
+    } else if (inWindow.length > 0) {
+      const closest = inWindow.sort(
+        (a, b) => Math.abs(a.amount - monarch.amount) - Math.abs(b.amount - monarch.amount),
+      )[0];
+      reason = `Amount mismatch, closest charge in window is ${closest.amount.toFixed(2)} (order ${closest.id})`;
+    } else {
+      reason = 'No Amazon charge in window';
+    }
+    entries.push({
+      side: UnmatchedSide.Monarch,
+      id: monarch.id,
+      date: monarch.date,
+      amount: monarch.amount,
+      description: [monarch.account?.displayName, monarch.notes].filter(Boolean).join(' - '),
+      reason,
+    });
+  }
+
+  for (const amazon of charges) {
+    if (pairedCharges.has(amazon)) {
+      const pair = pairs.find(pair => pair.amazon === amazon || pair.parts?.includes(amazon));
+      if (!pair || written.has(pair.monarch.id)) continue;
+      entries.push(amazonEntry(amazon, 'Matched transaction already has notes'));
+      continue;
+    }
+
+    let reason: string;
+    const sameAmount = transactions.filter(monarch => amountsMatch(monarch.amount, amazon.amount, options));
+    const inWindow = transactions.filter(monarch => canPair(monarch, amazon, window, options));
+    if (sameAmount.length > 0) {
+      const closest = sameAmount.sort((a, b) => dateDistance(a, amazon) - dateDistance(b, amazon))[0];
+      reason = inWindow.includes(closest)
+        ? `Transaction with this amount (${closest.date}) was already matched to another charge`
+        : `Outside window, closest transaction with this amount is ${days(closest, amazon)} days away`;
+    } else if (inWindow.length > 0) {
+      const closest = inWindow.sort(
+        (a, b) => Math.abs(a.amount - amazon.amount) - Math.abs(b.amount - amazon.amount),
+      )[0];
+      reason = `Amount mismatch, closest transaction in window is ${closest.amount.toFixed(2)} on ${closest.date}`;
+    } else if (amazon.accountId) {
+      reason = 'No transaction in window in the account this payment method is mapped to';
+    } else {
+      reason = 'No Monarch transaction in window';
+    }
+    entries.push(amazonEntry(amazon, reason));
+  }
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+}
+
+function amazonEntry(amazon: FlatTransaction, reason: string): UnmatchedEntry {
+  return {
+    side: UnmatchedSide.Amazon,
+    id: amazon.id,
+    date: amazon.date,
+    amount: amazon.amount,
+    description: amazon.items.map(item => item.title).join(', '),
+    reason,
+  };
 }
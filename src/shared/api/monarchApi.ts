@@ -1,17 +1,77 @@
+export type Account = {
+  id: string;
+  displayName: string;
+  mask: string | null;
+};
+
 export type Transaction = {
   id: string;
   amount: number;
   date: string;
   notes: string;
+  // Not posted by the bank yet, the posted transaction usually gets a new id
+  pending?: boolean;
+  needsReview?: boolean;
+  account?: Account;
+  category?: Category;
+  tags?: Tag[];
+  // Already broken into splits, by us or by hand
+  hasSplitTransactions?: boolean;
+  // Name of the merchant alias whose search found this transaction
+  merchantAlias?: string;
+};
+
+export type Category = {
+  id: string;
+  name: string;
+};
+
+export type Tag = {
+  id: string;
+  name: string;
+};
+
+// Changes made alongside the note, left out fields stay as they are in Monarch
+export type TransactionChanges = {
+  categoryId?: string;
+  needsReview?: boolean;
+};
+
+// One part of a split transaction. Amounts are signed like transactions and have to add up to the transaction.
+export type SplitInput = {
+  merchantName: string;
+  amount: number;
+  categoryId?: string;
+  notes: string;
+};
+
+export type Merchant = {
+  id: string;
+  name: string;
+  transactionCount: number;
+};
+
+// A Monarch merchant to look for Amazon transactions under. With an id only that merchant matches, otherwise the name
+// is used as a search.
+export type MerchantAlias = {
+  name: string;
+  id?: string;
 };
 
-export async function updateMonarchTransaction(authKey: string, id: string, note: string) {
+export async function updateMonarchTransaction(
+  authKey: string,
+  id: string,
+  note: string,
+  changes: TransactionChanges = {},
+) {
   const body = {
     operationName: 'Web_TransactionDrawerUpdateTransaction',
     variables: {
       input: {
         id: id,
         notes: note,
+        category: changes.categoryId,
+        needsReview: changes.needsReview,
       },
     },
     query: `
@@ -39,19 +99,107 @@ export async function updateMonarchTransaction(authKey: string, id: string, note
   await graphQLRequest(authKey, body);
 }
 
+// Replaces all tags of a transaction
+export async function setTransactionTags(authKey: string, transactionId: string, tagIds: string[]) {
+  const body = {
+    operationName: 'Web_SetTransactionTags',
+    variables: {
+      input: {
+        transactionId,
+        tagIds,
+      },
+    },
+    query: `
+      mutation Web_SetTransactionTags($input: SetTransactionTagsInput!) {
+        setTransactionTags(input: $input) {
+          errors {
+            message
+          }
+          transaction {
+            id
+          }
+        }
+      }
+    `,
+  };
+
+  const result = await graphQLRequest(authKey, body);
+  const errors = result.data?.setTransactionTags?.errors;
+  if (errors?.message) {
+    throw new Error('Monarch rejected the tags: ' + errors.message);
+  }
+}
+
+export async function updateTransactionSplits(authKey: string, transactionId: string, splits: SplitInput[]) {
+  const body = {
+    operationName: 'Common_SplitTransactionMutation',
+    variables: {
+      input: {
+        transactionId,
+        splitData: splits,
+      },
+    },
+    query: `
+      mutation Common_SplitTransactionMutation($input: UpdateTransactionSplitMutationInput!) {
+        updateTransactionSplit(input: $input) {
+          errors {
+            message
+          }
+          transaction {
+            id
+            hasSplitTransactions
+          }
+        }
+      }
+    `,
+  };
+
+  const result = await graphQLRequest(authKey, body);
+  const errors = result.data?.updateTransactionSplit?.errors;
+  if (errors?.message) {
+    throw new Error('Monarch rejected the splits: ' + errors.message);
+  }
+}
+
+const TRANSACTIONS_PAGE_SIZE = 1000;
+
 export async function getTransactions(
   authKey: string,
-  merchant: string,
+  merchant: MerchantAlias,
   startDate?: Date,
   endDate?: Date,
 ): Promise<Transaction[]> {
+  // Imports can span years, so keep fetching pages until Monarch has returned every transaction
+  const transactions: Transaction[] = [];
+  let totalCount = Infinity;
+  while (transactions.length < totalCount) {
+    const page = await getTransactionsPage(authKey, merchant, transactions.length, startDate, endDate);
+    totalCount = page.totalCount;
+    transactions.push(...page.results);
+    if (page.results.length < TRANSACTIONS_PAGE_SIZE) break;
+  }
+  return transactions.map(transaction => ({
+    ...transaction,
+    merchantAlias: merchant.name,
+  }));
+}
+
+async function getTransactionsPage(
+  authKey: string,
+  merchant: MerchantAlias,
+  offset: number,
+  startDate?: Date,
+  endDate?: Date,
+): Promise<{ totalCount: number; results: Transaction[] }> {
   const body = {
     operationName: 'Web_GetTransactionsList',
     variables: {
       orderBy: 'date',
-      limit: 1000,
+      offset,
+      limit: TRANSACTIONS_PAGE_SIZE,
       filters: {
-        search: merchant,
+        search: merchant.id ? '' : merchant.name,
+        merchants: merchant.id ? [merchant.id] : [],
         categories: [],
         accounts: [],
         startDate: startDate?.toISOString().split('T')[0] ?? undefined,
@@ -67,8 +215,23 @@ export async function getTransactions(
             id
             amount
             pending
+            needsReview
             date
             notes
+            hasSplitTransactions
+            account {
+              id
+              displayName
+              mask
+            }
+            category {
+              id
+              name
+            }
+            tags {
+              id
+              name
+            }
           }
         }
       }
@@ -76,7 +239,133 @@ export async function getTransactions(
   };
 
   const result = await graphQLRequest(authKey, body);
-  return result.data.allTransactions.results;
+  return result.data.allTransactions;
+}
+
+export async function getMerchants(authKey: string, search: string): Promise<Merchant[]> {
+  const body = {
+    operationName: 'Web_GetMerchants',
+    variables: {
+      search,
+      limit: 50,
+    },
+    query: `
+      query Web_GetMerchants($search: String, $limit: Int) {
+        merchants(search: $search, limit: $limit, orderBy: TRANSACTION_COUNT) {
+          id
+          name
+          transactionCount
+        }
+      }
+    `,
+  };
+
+  const result = await graphQLRequest(authKey, body);
+  return result.data.merchants;
+}
+
+export async function getCategories(authKey: string): Promise<Category[]> {
+  const body = {
+    operationName: 'Web_GetCategories',
+    variables: {},
+    query: `
+      query Web_GetCategories {
+        categories {
+          id
+          name
+        }
+      }
+    `,
+  };
+
+  const result = await graphQLRequest(authKey, body);
+  return result.data.categories;
+}
+
+export async function getTags(authKey: string): Promise<Tag[]> {
+  const body = {
+    operationName: 'Web_GetHouseholdTransactionTags',
+    variables: {},
+    query: `
+      query Web_GetHouseholdTransactionTags {
+        householdTransactionTags {
+          id
+          name
+        }
+      }
+    `,
+  };
+
+  const result = await graphQLRequest(authKey, body);
+  return result.data.householdTransactionTags;
+}
+
+// Color of the tags this extension creates, users can change it in Monarch
+const TAG_COLOR = '#FF9900';
+
+export async function createTag(authKey: string, name: string): Promise<Tag> {
+  const body = {
+    operationName: 'Common_CreateTransactionTag',
+    variables: {
+      input: {
+        name,
+        color: TAG_COLOR,
+      },
+    },
+    query: `
+      mutation Common_CreateTransactionTag($input: CreateTransactionTagInput!) {
+        createTransactionTag(input: $input) {
+          tag {
+            id
+            name
+          }
+          errors {
+            message
+          }
+        }
+      }
+    `,
+  };
+
+  const result = await graphQLRequest(authKey, body);
+  const tag = result.data?.createTransactionTag?.tag;
+  if (!tag) {
+    throw new Error(
+      'Monarch could not create the tag ' + name + ': ' + result.data?.createTransactionTag?.errors?.message,
+    );
+  }
+  return tag;
+}
+
+// The ids of tags by name, tags that don't exist yet are created. Names are compared ignoring case like Monarch does.
+export async function findOrCreateTags(authKey: string, names: string[]): Promise<Record<string, string>> {
+  const tags = await getTags(authKey);
+  const ids: Record<string, string> = {};
+  for (const name of new Set(names.map(name => name.trim()).filter(Boolean))) {
+    const tag = tags.find(tag => tag.name.toLowerCase() === name.toLowerCase()) ?? (await createTag(authKey, name));
+    tags.push(tag);
+    ids[name] = tag.id;
+  }
+  return ids;
+}
+
+export async function getAccounts(authKey: string): Promise<Account[]> {
+  const body = {
+    operationName: 'Web_GetAccounts',
+    variables: {},
+    query: `
+      query Web_GetAccounts {
+        accounts {
+          id
+          displayName
+          mask
+        }
+      }
+    `,
+  };
+
+  const result = await graphQLRequest(authKey, body);
+  return result.data.accounts;
 }
 
 async function graphQLRequest(authKey: string, body: unknown) {
@@ -0,0 +1,77 @@
+import { Item, OrderTransaction } from './amazonApi';
+import { MarketplaceConfig, formatMoney } from './marketplace';
+import { TemplateError, noteContext, renderTemplate } from './templateUtil';
+
+// One block per item, e.g.
+//   Widget (x2) - $21.60
+//   Sold by Acme - https://www.amazon.com/dp/B0ABCDEFGH
+export function itemNote(item: Item, marketplace: MarketplaceConfig): string {
+  const quantity = item.weight ? ` (${item.weight})` : item.quantity && item.quantity > 1 ? ` (x${item.quantity})` : '';
+  // Prefer the amount including tax, shipping and discounts so the note adds up to the charge
+  const lines = [item.title + quantity + ' - ' + formatMoney(item.total ?? item.price, marketplace)];
+
+  const details = [
+    item.substitutedFor ? 'Substituted for ' + item.substitutedFor : undefined,
+    item.seller ? 'Sold by ' + item.seller : undefined,
+    item.renewalDate ? 'Renews ' + item.renewalDate : undefined,
+    item.url,
+  ].filter(Boolean);
+  if (details.length > 0) {
+    lines.push(details.join(' - '));
+  }
+  return lines.join('\n');
+}
+
+// Households with more than one Amazon login get a line saying which one placed the order
+function profileLine(profile: string | undefined): string {
+  return profile ? '\n\nAmazon account: ' + profile : '';
+}
+
+export function itemsNote(items: Item[], marketplace: MarketplaceConfig, profile?: string): string {
+  const note = items
+    .map(item => itemNote(item, marketplace))
+    .join('\n\n')
+    .trim();
+  return note.length > 0 ? note + profileLine(profile) : note;
+}
+
+// e.g. "Refund for: Widget - $21.60 (original charge 2024-01-06)"
+export function refundNote(
+  items: Item[],
+  originalDate: string | undefined,
+  marketplace: MarketplaceConfig,
+  profile?: string,
+): string {
+  const original = originalDate ? ` (original charge ${originalDate})` : '';
+  const note = items
+    .map(item => 'Refund for: ' + item.title + ' - ' + formatMoney(item.total ?? item.price, marketplace) + original)
+    .join('\n\n')
+    .trim();
+  return note.length > 0 ? note + profileLine(profile) : note;
+}
+
+export type NoteDetails = {
+  // The note template from Options, the notes above are used without one
+  template?: string;
+  profile?: string;
+  orderDate?: string;
+  originalDate?: string;
+};
+
+// The note for a charge or refund. A template that can't be read falls back to the default note.
+export function transactionNote(
+  transaction: OrderTransaction,
+  marketplace: MarketplaceConfig,
+  details: NoteDetails,
+): string {
+  if (details.template?.trim()) {
+    try {
+      return renderTemplate(details.template, noteContext(transaction, marketplace, details));
+    } catch (e) {
+      if (!(e instanceof TemplateError)) throw e;
+    }
+  }
+  return transaction.refund
+    ? refundNote(transaction.items, details.originalDate, marketplace, details.profile)
+    : itemsNote(transaction.items, marketplace, details.profile);
+}
@@ -0,0 +1,58 @@
+export enum PaymentMethodType {
+  Card = 'card',
+  GiftCard = 'giftCard',
+  Points = 'points',
+}
+
+export type PaymentMethod = {
+  type: PaymentMethodType;
+  brand?: string;
+  last4?: string;
+};
+
+const CARD_BRANDS = [
+  'American Express',
+  'Amex',
+  'Mastercard',
+  'Visa',
+  'Discover',
+  'JCB',
+  'Diners Club',
+  'Maestro',
+  'Amazon Store Card',
+];
+
+// Finds the payment method in text such as "Visa ending in 1234", "Mastercard | Last digits: 1234" or "Visa - 1234"
+export function parsePaymentMethod(text: string, giftCardLabel = 'Gift Card'): PaymentMethod | undefined {
+  const lower = text?.toLowerCase() ?? '';
+  if (lower.includes(giftCardLabel.toLowerCase()) || lower.includes('gift certificate')) {
+    return { type: PaymentMethodType.GiftCard };
+  }
+  if (/\b(reward )?points\b/.test(lower)) {
+    return { type: PaymentMethodType.Points };
+  }
+
+  const brand = CARD_BRANDS.map(brand => ({ brand, index: lower.indexOf(brand.toLowerCase()) }))
+    .filter(({ index }) => index !== -1)
+    .sort((a, b) => a.index - b.index)[0];
+  if (!brand) {
+    return undefined;
+  }
+  const last4 = text.slice(brand.index + brand.brand.length).match(/\b(\d{4})\b/)?.[1];
+  return { type: PaymentMethodType.Card, brand: brand.brand, last4 };
+}
+
+// A stable name for a payment method, used to map it to a Monarch account, e.g. "Visa 1234"
+export function paymentMethodKey(method: PaymentMethod | undefined): string | undefined {
+  if (!method) {
+    return undefined;
+  }
+  switch (method.type) {
+    case PaymentMethodType.GiftCard:
+      return 'Gift Card';
+    case PaymentMethodType.Points:
+      return 'Points';
+    default:
+      return [method.brand, method.last4].filter(Boolean).join(' ');
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { PendingNote } from '../storages/pendingNoteStorage';
+import { Transaction } from './monarchApi';
+import { findPostedReplacement, isPendingNoteExpired } from './pendingUtil';
+
+const DAY = 1000 * 60 * 60 * 24;
+
+const pending: PendingNote = {
+  note: 'Order 111-2222222-3333333',
+  amount: -25,
+  date: '2024-03-01',
+  accountId: 'card',
+  writtenAt: new Date('2024-03-09').getTime(),
+};
+
+function posted(id: string, date: string, amount: number, accountId = 'card'): Transaction {
+  return { id, date, amount, notes: '', account: { id: accountId, displayName: accountId, mask: null } };
+}
+
+describe('findPostedReplacement', () => {
+  it('takes the closest amount posted after the pending date on the same account', () => {
+    const transactions = [
+      posted('other account', '2024-03-03', -25, 'checking'),
+      posted('before', '2024-02-28', -25),
+      posted('with tip', '2024-03-03', -28),
+      posted('same', '2024-03-04', -25),
+    ];
+    expect(findPostedReplacement(pending, transactions, new Set())?.id).toBe('same');
+    expect(findPostedReplacement(pending, transactions, new Set(['same']))?.id).toBe('with tip');
+  });
+
+  it('ignores transactions posted too late or for a very different amount', () => {
+    const transactions = [posted('late', '2024-03-20', -25), posted('different', '2024-03-03', -40)];
+    expect(findPostedReplacement(pending, transactions, new Set())).toBeUndefined();
+  });
+});
+
+describe('isPendingNoteExpired', () => {
+  it('counts from when the note was written, not from the pending date', () => {
+    expect(isPendingNoteExpired(pending, pending.writtenAt + 2 * DAY)).toBe(false);
+    expect(isPendingNoteExpired(pending, pending.writtenAt + 31 * DAY)).toBe(true);
+  });
+});
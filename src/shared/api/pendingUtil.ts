@@ -0,0 +1,41 @@
+import { Transaction } from './monarchApi';
+import type { PendingNote } from '../storages/pendingNoteStorage';
+
+const DAY = 1000 * 60 * 60 * 24;
+// Pending charges usually post within a few days, and sometimes for a slightly different amount (e.g. tips)
+const POSTING_DAYS = 10;
+const AMOUNT_TOLERANCE_PERCENT = 20;
+
+/**
+ * Finds the posted transaction that replaced a pending one: same account, close in amount and posted on or shortly
+ * after the pending date. The closest amount wins, then the closest date.
+ */
+export function findPostedReplacement(
+  pending: PendingNote,
+  transactions: Transaction[],
+  claimed: Set<string>,
+): Transaction | undefined {
+  const pendingTime = new Date(pending.date).getTime();
+  return transactions
+    .filter(transaction => {
+      if (transaction.pending || claimed.has(transaction.id)) return false;
+      if (pending.accountId && transaction.account?.id !== pending.accountId) return false;
+      if (Math.sign(transaction.amount) !== Math.sign(pending.amount)) return false;
+
+      const days = (new Date(transaction.date).getTime() - pendingTime) / DAY;
+      const difference = Math.abs(transaction.amount - pending.amount);
+      return (
+        days >= 0 && days <= POSTING_DAYS && difference <= (Math.abs(pending.amount) * AMOUNT_TOLERANCE_PERCENT) / 100
+      );
+    })
+    .sort(
+      (a, b) =>
+        Math.abs(a.amount - pending.amount) - Math.abs(b.amount - pending.amount) || a.date.localeCompare(b.date),
+    )[0];
+}
+
+// Pending notes whose transaction never showed up again are given up on after a while. Counted from when the note was
+// written, a charge can already be pending for days by the time it is first synced.
+export function isPendingNoteExpired(pending: PendingNote, now = Date.now()): boolean {
+  return now - pending.writtenAt > POSTING_DAYS * 3 * DAY;
+}
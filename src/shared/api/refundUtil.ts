@@ -0,0 +1,37 @@
+import { Item, OrderTransaction } from './amazonApi';
+import { MatchedTransaction } from './matchUtil';
+import { Transaction } from './monarchApi';
+
+// The items a refund was for. Falls back to every item in the order when Amazon doesn't say which were returned.
+export function refundedItems(items: Item[], refundDate: string): Item[] {
+  const refunded = items.filter(item => item.refunded);
+  if (refunded.length === 0) {
+    return items;
+  }
+  const sameDay = refunded.filter(item => item.refundDate === refundDate);
+  return sameDay.length > 0 ? sameDay : refunded;
+}
+
+// Points each refund at the first charge of the same order, that is the purchase being refunded
+export function linkRefundsToCharges(transactions: OrderTransaction[]): OrderTransaction[] {
+  const charge = transactions.find(transaction => !transaction.refund);
+  return transactions.map(transaction =>
+    transaction.refund && charge ? { ...transaction, originalDate: charge.date } : transaction,
+  );
+}
+
+// Finds the Monarch transaction matched to the purchase for every matched refund
+export function linkRefundsToPurchases(
+  matches: MatchedTransaction[],
+  purchases: { monarch: Transaction; amazon: OrderTransaction }[],
+): MatchedTransaction[] {
+  return matches.map(match => {
+    if (!match.amazon.refund) {
+      return match;
+    }
+    const original = purchases
+      .filter(purchase => !purchase.amazon.refund && purchase.amazon.id === match.amazon.id)
+      .sort((a, b) => a.monarch.date.localeCompare(b.monarch.date))[0];
+    return original ? { ...match, original: original.monarch } : match;
+  });
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { OrderTransaction } from './amazonApi';
+import { Transaction } from './monarchApi';
+import { Rule, RuleField, RuleOperator, applyRules, ruleChanges, ruleMatches, ruleTags } from './ruleUtil';
+
+const charge: OrderTransaction = {
+  id: '111-2222222-3333333',
+  date: '2024-03-05',
+  amount: 42.5,
+  refund: false,
+  items: [
+    { title: 'USB-C Cable 2 Pack', price: 12.5, seller: 'Acme' },
+    { title: 'Diapers Size 3', price: 30, seller: 'Amazon.com' },
+  ],
+};
+
+function rule(id: string, conditions: Rule['conditions'], actions: Rule['actions']): Rule {
+  return { id, name: id, enabled: true, conditions, actions };
+}
+
+describe('ruleMatches', () => {
+  it('needs title and seller conditions to hold for the same item', () => {
+    const cableByAcme = rule(
+      'cable',
+      [
+        { field: RuleField.Title, operator: RuleOperator.Contains, value: 'cable' },
+        { field: RuleField.Seller, operator: RuleOperator.Equals, value: 'acme' },
+      ],
+      {},
+    );
+    const diapersByAcme = rule(
+      'diapers',
+      [
+        { field: RuleField.Title, operator: RuleOperator.Contains, value: 'diapers' },
+        { field: RuleField.Seller, operator: RuleOperator.Equals, value: 'Acme' },
+      ],
+      {},
+    );
+    expect(ruleMatches(cableByAcme, charge)).toBe(true);
+    expect(ruleMatches(diapersByAcme, charge)).toBe(false);
+  });
+
+  it('compares amounts and order dates', () => {
+    const over = rule('over', [{ field: RuleField.Amount, operator: RuleOperator.GreaterThan, value: '40' }], {});
+    const before = rule(
+      'before',
+      [{ field: RuleField.OrderDate, operator: RuleOperator.LessThan, value: '2024-03-01' }],
+      {},
+    );
+    expect(ruleMatches(over, charge)).toBe(true);
+    expect(ruleMatches(over, { ...charge, amount: -42.5, refund: true })).toBe(true);
+    expect(ruleMatches(before, charge)).toBe(false);
+    expect(ruleMatches(before, charge, '2024-02-20')).toBe(true);
+  });
+
+  it('never fires without conditions or when disabled', () => {
+    expect(ruleMatches(rule('empty', [], { categoryId: 'baby' }), charge)).toBe(false);
+    const refunds = rule('refunds', [{ field: RuleField.Refund, operator: RuleOperator.Equals, value: 'false' }], {});
+    expect(ruleMatches(refunds, charge)).toBe(true);
+    expect(ruleMatches({ ...refunds, enabled: false }, charge)).toBe(false);
+  });
+});
+
+describe('applyRules', () => {
+  const diapers = { field: RuleField.Title, operator: RuleOperator.Contains, value: 'diapers' };
+
+  it('lets the first category win and combines tags and prefixes', () => {
+    const result = applyRules(
+      [
+        rule('baby', [diapers], { categoryId: 'baby', tagIds: ['kids'], notePrefix: 'Baby' }),
+        rule('household', [diapers], { categoryId: 'household', tagIds: ['kids', 'amazon'], needsReview: false }),
+      ],
+      charge,
+    );
+    expect(result.categoryId).toBe('baby');
+    expect(result.tagIds).toEqual(['kids', 'amazon']);
+    expect(result.needsReview).toBe(false);
+    expect(result.notePrefix).toBe('Baby');
+    expect(result.rules.map(rule => rule.id)).toEqual(['baby', 'household']);
+  });
+
+  it('only changes what is different on the Monarch transaction', () => {
+    const result = applyRules([rule('baby', [diapers], { categoryId: 'baby', tagIds: ['kids'] })], charge);
+    const transaction: Transaction = {
+      id: 't1',
+      date: '2024-03-06',
+      amount: -42.5,
+      notes: '',
+      category: { id: 'baby', name: 'Baby' },
+      tags: [{ id: 'amazon', name: 'Amazon' }],
+    };
+    expect(ruleChanges(transaction, result)).toEqual({});
+    expect(ruleTags(transaction, result)).toEqual(['amazon', 'kids']);
+    expect(ruleTags({ ...transaction, tags: [{ id: 'kids', name: 'Kids' }] }, result)).toBeUndefined();
+  });
+});
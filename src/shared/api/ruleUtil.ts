@@ -0,0 +1,167 @@
+import { Item, OrderTransaction } from './amazonApi';
+import { Transaction, TransactionChanges } from './monarchApi';
+
+export enum RuleField {
+  Title = 'title',
+  Seller = 'seller',
+  Amount = 'amount',
+  OrderDate = 'orderDate',
+  Refund = 'refund',
+}
+
+export enum RuleOperator {
+  Contains = 'contains',
+  Equals = 'equals',
+  GreaterThan = 'greaterThan',
+  LessThan = 'lessThan',
+}
+
+// The operators that make sense for each field, the first one is the default
+export const RULE_OPERATORS: Record<RuleField, RuleOperator[]> = {
+  [RuleField.Title]: [RuleOperator.Contains, RuleOperator.Equals],
+  [RuleField.Seller]: [RuleOperator.Contains, RuleOperator.Equals],
+  [RuleField.Amount]: [RuleOperator.GreaterThan, RuleOperator.LessThan, RuleOperator.Equals],
+  [RuleField.OrderDate]: [RuleOperator.GreaterThan, RuleOperator.LessThan, RuleOperator.Equals],
+  [RuleField.Refund]: [RuleOperator.Equals],
+};
+
+// Values are kept as typed, amounts are parsed when the rule runs and refunds are "true" or "false"
+export type RuleCondition = {
+  field: RuleField;
+  operator: RuleOperator;
+  value: string;
+};
+
+export type RuleActions = {
+  categoryId?: string;
+  tagIds?: string[];
+  needsReview?: boolean;
+  notePrefix?: string;
+};
+
+export type Rule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleCondition[];
+  actions: RuleActions;
+};
+
+export type RuleResult = {
+  rules: Rule[];
+  categoryId?: string;
+  tagIds: string[];
+  needsReview?: boolean;
+  notePrefix?: string;
+};
+
+function isItemField(field: RuleField) {
+  return field === RuleField.Title || field === RuleField.Seller;
+}
+
+function compareText(text: string | undefined, operator: RuleOperator, value: string) {
+  const lower = (text ?? '').toLowerCase();
+  const wanted = value.trim().toLowerCase();
+  return operator === RuleOperator.Contains ? lower.includes(wanted) : lower === wanted;
+}
+
+// Works for numbers and for ISO dates, which sort as strings
+function compareOrdered<T>(actual: T, operator: RuleOperator, value: T) {
+  switch (operator) {
+    case RuleOperator.GreaterThan:
+      return actual > value;
+    case RuleOperator.LessThan:
+      return actual < value;
+    default:
+      return actual === value;
+  }
+}
+
+function itemConditionHolds(condition: RuleCondition, item: Item) {
+  const text = condition.field === RuleField.Title ? item.title : item.seller;
+  return compareText(text, condition.operator, condition.value);
+}
+
+function transactionConditionHolds(condition: RuleCondition, transaction: OrderTransaction, orderDate: string) {
+  switch (condition.field) {
+    case RuleField.Amount: {
+      const amount = parseFloat(condition.value);
+      return !Number.isNaN(amount) && compareOrdered(Math.abs(transaction.amount), condition.operator, amount);
+    }
+    case RuleField.OrderDate:
+      return compareOrdered(orderDate, condition.operator, condition.value.trim());
+    case RuleField.Refund:
+      return transaction.refund === (condition.value === 'true');
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether every condition of the rule holds. Title and seller conditions have to hold for the same item, so "title
+ * contains cable" and "seller is Acme" only fires for a cable sold by Acme. Rules without conditions never fire.
+ */
+export function ruleMatches(rule: Rule, transaction: OrderTransaction, orderDate = transaction.date): boolean {
+  if (!rule.enabled || rule.conditions.length === 0) {
+    return false;
+  }
+  const itemConditions = rule.conditions.filter(condition => isItemField(condition.field));
+  const transactionConditions = rule.conditions.filter(condition => !isItemField(condition.field));
+
+  return (
+    transactionConditions.every(condition => transactionConditionHolds(condition, transaction, orderDate)) &&
+    (itemConditions.length === 0 ||
+      transaction.items.some(item => itemConditions.every(condition => itemConditionHolds(condition, item))))
+  );
+}
+
+/**
+ * Runs the rules in order. The first rule that sets a category or review status wins, tags and note prefixes of
+ * every rule that fires are combined.
+ */
+export function applyRules(rules: Rule[], transaction: OrderTransaction, orderDate?: string): RuleResult {
+  const result: RuleResult = { rules: [], tagIds: [] };
+  const prefixes: string[] = [];
+  for (const rule of rules.filter(rule => ruleMatches(rule, transaction, orderDate))) {
+    result.rules.push(rule);
+    result.categoryId = result.categoryId ?? (rule.actions.categoryId || undefined);
+    result.needsReview = result.needsReview ?? rule.actions.needsReview;
+    result.tagIds = [...new Set(result.tagIds.concat(rule.actions.tagIds ?? []))];
+    if (rule.actions.notePrefix?.trim()) prefixes.push(rule.actions.notePrefix.trim());
+  }
+  result.notePrefix = prefixes.length > 0 ? prefixes.join(' ') : undefined;
+  return result;
+}
+
+// The category the rules give a single item, used for the splits of a transaction
+export function itemCategory(
+  rules: Rule[],
+  item: Item,
+  transaction: OrderTransaction,
+  orderDate?: string,
+): string | undefined {
+  return applyRules(rules, { ...transaction, items: [item] }, orderDate).categoryId;
+}
+
+export function notePrefixed(note: string, result: RuleResult): string {
+  return result.notePrefix ? result.notePrefix + '\n\n' + note : note;
+}
+
+// Only what the rules change, so transactions that already look right aren't written again
+export function ruleChanges(transaction: Transaction, result: RuleResult): TransactionChanges {
+  const changes: TransactionChanges = {};
+  if (result.categoryId && result.categoryId !== transaction.category?.id) {
+    changes.categoryId = result.categoryId;
+  }
+  if (result.needsReview !== undefined && result.needsReview !== transaction.needsReview) {
+    changes.needsReview = result.needsReview;
+  }
+  return changes;
+}
+
+// The tags the transaction should have, or undefined when it already has all of them
+export function ruleTags(transaction: Transaction, result: RuleResult): string[] | undefined {
+  const existing = (transaction.tags ?? []).map(tag => tag.id);
+  const missing = result.tagIds.filter(id => !existing.includes(id));
+  return missing.length > 0 ? existing.concat(missing) : undefined;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { Item } from './amazonApi';
+import { Marketplace, getMarketplace } from './marketplace';
+import { itemSplits } from './splitUtil';
+
+const us = getMarketplace(Marketplace.US);
+
+describe('itemSplits', () => {
+  const items: Item[] = [
+    { title: 'USB-C Cable 2 Pack', price: 12.5, total: 13.6 },
+    { title: 'Diapers Size 3', price: 27, total: 28.9 },
+    { title: 'Batteries', price: 9.99, total: 10.8 },
+  ];
+
+  it('scales the item totals to the transaction to the cent', () => {
+    // Only the first shipment of the order, 30.00 of 53.30
+    const splits = itemSplits(items, -30, us, () => undefined);
+    expect(splits.map(split => split.amount)).toEqual([-7.65, -16.27, -6.08]);
+    expect(splits.reduce((sum, split) => sum + Math.round(split.amount * 100), 0)).toBe(-3000);
+  });
+
+  it('shortens long titles for the merchant and keeps the category of each item', () => {
+    const long = { title: 'A'.repeat(80), price: 10 };
+    const splits = itemSplits([long, items[1]], -38.9, us, item => (item === long ? 'electronics' : 'baby'));
+    expect(splits[0].merchantName).toBe('A'.repeat(59) + '…');
+    expect(splits.map(split => split.categoryId)).toEqual(['electronics', 'baby']);
+    expect(splits[1].notes).toContain('Diapers Size 3 - $28.90');
+  });
+});
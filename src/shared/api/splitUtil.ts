@@ -0,0 +1,31 @@
+import { Item } from './amazonApi';
+import { allocateCents } from './allocationUtil';
+import { MarketplaceConfig } from './marketplace';
+import { SplitInput } from './monarchApi';
+import { itemNote } from './noteUtil';
+
+// Monarch creates a merchant for every split merchant name, long product titles make for unreadable merchants
+const MAX_MERCHANT_LENGTH = 60;
+
+/**
+ * One split per item for a Monarch transaction. The item totals include their share of tax and shipping, but a
+ * transaction can be just one shipment of the order, so they are scaled to the transaction amount to the cent.
+ */
+export function itemSplits(
+  items: Item[],
+  amount: number,
+  marketplace: MarketplaceConfig,
+  categoryOf: (item: Item) => string | undefined,
+): SplitInput[] {
+  const amounts = allocateCents(
+    amount,
+    items.map(item => item.total ?? item.price),
+  );
+  return items.map((item, index) => ({
+    merchantName:
+      item.title.length > MAX_MERCHANT_LENGTH ? item.title.slice(0, MAX_MERCHANT_LENGTH - 1).trim() + '…' : item.title,
+    amount: amounts[index],
+    categoryId: categoryOf(item),
+    notes: itemNote(item, marketplace),
+  }));
+}
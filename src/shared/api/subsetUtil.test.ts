@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { findSubset } from './subsetUtil';
+
+const amount = (value: number) => value;
+
+describe('findSubset', () => {
+  it('finds the parts that add up to the amount', () => {
+    expect(findSubset(50, [12.5, 20, 7, 30], amount, 0, 4)).toEqual([20, 30]);
+    expect(findSubset(-39.5, [-12.5, -20, -7], amount, 0, 4)).toEqual([-12.5, -20, -7]);
+  });
+
+  it('prefers the smallest set and the candidates given first', () => {
+    expect(findSubset(30, [10, 20, 5, 15, 30 - 0.005], amount, 0.01, 4)).toEqual([10, 20]);
+    expect(findSubset(30, [5, 10, 15, 25], amount, 0, 4)).toEqual([5, 25]);
+  });
+
+  it('leaves out parts with the other sign and gives up past the size limit', () => {
+    expect(findSubset(10, [15, -5], amount, 0, 4)).toBeUndefined();
+    expect(findSubset(10, [2, 2, 2, 2, 2], amount, 0, 4)).toBeUndefined();
+    expect(findSubset(10, [2, 2, 2, 2, 2], amount, 0, 5)).toEqual([2, 2, 2, 2, 2]);
+  });
+
+  it('accepts sums within the tolerance', () => {
+    expect(findSubset(25.01, [10, 15], amount, 0.01, 4)).toEqual([10, 15]);
+    expect(findSubset(25.05, [10, 15], amount, 0.01, 4)).toBeUndefined();
+  });
+});
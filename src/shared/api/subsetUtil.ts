@@ -0,0 +1,46 @@
+// Finds a few parts that add up to an amount, e.g. the shipments that were charged together as one card transaction.
+// Smaller sets are tried first and candidates are tried in the order given, so the caller decides which set wins.
+export function findSubset<T>(
+  target: number,
+  candidates: T[],
+  amountOf: (candidate: T) => number,
+  tolerance: number,
+  maxSize: number,
+): T[] | undefined {
+  // Every part has the same sign as the target, so a set that is already too large can't get closer
+  const parts = candidates.filter(candidate => Math.sign(amountOf(candidate)) === Math.sign(target));
+  const limit = Math.abs(target) + tolerance + 0.001;
+
+  for (let size = 2; size <= Math.min(maxSize, parts.length); size++) {
+    const found = search(parts, amountOf, target, tolerance, limit, size, 0, 0, []);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+function search<T>(
+  parts: T[],
+  amountOf: (candidate: T) => number,
+  target: number,
+  tolerance: number,
+  limit: number,
+  size: number,
+  start: number,
+  sum: number,
+  chosen: T[],
+): T[] | undefined {
+  if (chosen.length === size) {
+    return Math.abs(sum - target) <= tolerance + 0.001 ? chosen : undefined;
+  }
+  for (let i = start; i <= parts.length - (size - chosen.length); i++) {
+    const next = sum + amountOf(parts[i]);
+    if (Math.abs(next) > limit) continue;
+    const found = search(parts, amountOf, target, tolerance, limit, size, i + 1, next, chosen.concat([parts[i]]));
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
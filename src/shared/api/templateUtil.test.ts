@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { OrderTransaction } from './amazonApi';
+import { Marketplace, getMarketplace } from './marketplace';
+import { EXAMPLE_TEMPLATE, TemplateError, noteContext, parseTemplate, renderTemplate } from './templateUtil';
+
+const us = getMarketplace(Marketplace.US);
+
+const charge: OrderTransaction = {
+  id: '111-2222222-3333333',
+  date: '2024-03-06',
+  amount: 42.5,
+  refund: false,
+  items: [
+    { title: 'USB-C Cable 2 Pack', price: 12.5, quantity: 2, total: 13.6, seller: 'Acme' },
+    { title: 'Diapers Size 3', price: 27, total: 28.9 },
+  ],
+};
+
+describe('renderTemplate', () => {
+  it('fills in values, cuts them and repeats item sections', () => {
+    const template =
+      'Order {{orderId}}\n{{#items}}- {{title:10}} {{total}}{{#seller}} by {{seller}}{{/seller}}\n{{/items}}';
+    expect(renderTemplate(template, noteContext(charge, us, {}))).toBe(
+      'Order 111-2222222-3333333\n- USB-C Cab… $13.60 by Acme\n- Diapers S… $28.90',
+    );
+  });
+
+  it('drops the lines of sections that render nothing', () => {
+    const refund = { ...charge, refund: true, amount: 42.5 };
+    const context = noteContext(refund, us, { orderDate: '2024-03-01', originalDate: '2024-03-02' });
+    expect(renderTemplate(EXAMPLE_TEMPLATE, context).split('\n')[0]).toBe(
+      'Refund for order 111-2222222-3333333 from 2024-03-02',
+    );
+    expect(renderTemplate('{{#refund}}\nRefund\n{{/refund}}\nDone', noteContext(charge, us, {}))).toBe('Done');
+  });
+
+  it('lets item values hide order values of the same name', () => {
+    const context = noteContext({ ...charge, summary: { ...emptySummary, total: 42.5 } }, us, {});
+    expect(renderTemplate('{{total}} {{#items}}{{total}} {{/items}}', context)).toBe('$42.50 $13.60 $28.90');
+  });
+});
+
+const emptySummary = { subtotal: 0, shipping: 0, tax: 0, promotions: 0, giftWrap: 0, giftCard: 0, total: 0 };
+
+describe('parseTemplate', () => {
+  it('rejects sections that are not closed properly', () => {
+    expect(() => parseTemplate('{{#items}}{{title}}')).toThrow(TemplateError);
+    expect(() => parseTemplate('{{#items}}{{/refund}}')).toThrow('{{/refund}} does not close an open section');
+  });
+});
@@ -0,0 +1,177 @@
+import { Item, OrderTransaction, orderUrl } from './amazonApi';
+import { MarketplaceConfig, formatMoney } from './marketplace';
+
+/**
+ * A small mustache-like language for notes:
+ *   {{title}}              a value, empty when it isn't known
+ *   {{title:40}}           a value cut to 40 characters
+ *   {{#items}}...{{/items}} repeated for every item, values of the item hide the order values of the same name
+ *   {{#refund}}...{{/refund}} only for refunds, {{^refund}}...{{/refund}} only for purchases
+ */
+
+// The template could not be read, e.g. a section that is never closed
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+export type TemplateValue = string | boolean | undefined | TemplateContext[];
+export type TemplateContext = { [name: string]: TemplateValue };
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; name: string; limit?: number }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+// Shown in Options so nobody has to guess the names
+export const TEMPLATE_PLACEHOLDERS: { name: string; description: string }[] = [
+  { name: 'orderId', description: 'Amazon order number' },
+  { name: 'orderUrl', description: 'link to the order on Amazon' },
+  { name: 'orderDate', description: 'date the order was placed' },
+  { name: 'date', description: 'date of the charge or refund' },
+  { name: 'originalDate', description: 'for refunds, date of the purchase' },
+  { name: 'amount', description: 'amount of the charge or refund' },
+  { name: 'refund', description: 'section shown only for refunds' },
+  { name: 'profile', description: 'Amazon account, when there is more than one' },
+  { name: 'itemCount', description: 'number of items' },
+  { name: 'subtotal', description: 'order subtotal' },
+  { name: 'shipping', description: 'order shipping' },
+  { name: 'tax', description: 'order tax' },
+  { name: 'total', description: 'order total, or the item total inside items' },
+  { name: 'items', description: 'section repeated for every item' },
+  { name: 'title', description: 'item title' },
+  { name: 'quantity', description: 'item quantity' },
+  { name: 'price', description: 'item price' },
+  { name: 'unitPrice', description: 'price of one item' },
+  { name: 'seller', description: 'item seller' },
+  { name: 'url', description: 'link to the item' },
+];
+
+export const EXAMPLE_TEMPLATE = `{{#refund}}Refund for order {{orderId}} from {{originalDate}}{{/refund}}{{^refund}}Order {{orderId}} on {{orderDate}}{{/refund}}
+{{#items}}
+- {{title:60}} (x{{quantity}}) - {{total}}{{#seller}} sold by {{seller}}{{/seller}}
+{{/items}}
+{{orderUrl}}`;
+
+const TAG = /{{\s*([#^/]?)\s*(\w+)(?::(\d+))?\s*}}/g;
+// A section tag on a line of its own, the line break after it is not part of the note
+const STANDALONE_SECTION = /^[ \t]*({{\s*[#^/]\s*\w+\s*}})[ \t]*\r?\n/gm;
+
+export function parseTemplate(text: string): TemplateNode[] {
+  const template = text.replace(STANDALONE_SECTION, '$1');
+  const root: TemplateNode[] = [];
+  const stack: { name: string; children: TemplateNode[] }[] = [{ name: '', children: root }];
+  let last = 0;
+  for (const match of template.matchAll(TAG)) {
+    const [tag, kind, name, limit] = match;
+    const index = match.index ?? 0;
+    const children = stack[stack.length - 1].children;
+    if (index > last) {
+      children.push({ type: 'text', text: template.slice(last, index) });
+    }
+    last = index + tag.length;
+
+    if (kind === '#' || kind === '^') {
+      const section: TemplateNode = { type: 'section', name, inverted: kind === '^', children: [] };
+      children.push(section);
+      stack.push({ name, children: section.children });
+    } else if (kind === '/') {
+      if (stack.length === 1 || stack[stack.length - 1].name !== name) {
+        throw new TemplateError('{{/' + name + '}} does not close an open section');
+      }
+      stack.pop();
+    } else {
+      children.push({ type: 'value', name, limit: limit ? parseInt(limit) : undefined });
+    }
+  }
+  if (stack.length > 1) {
+    throw new TemplateError('{{#' + stack[stack.length - 1].name + '}} is never closed');
+  }
+  if (last < template.length) {
+    root.push({ type: 'text', text: template.slice(last) });
+  }
+  return root;
+}
+
+function lookup(name: string, scopes: TemplateContext[]): TemplateValue {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (name in scopes[i]) return scopes[i][name];
+  }
+  return undefined;
+}
+
+function truncate(text: string, limit: number | undefined) {
+  return limit !== undefined && text.length > limit ? text.slice(0, Math.max(limit - 1, 0)).trimEnd() + '…' : text;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[]): string {
+  return nodes
+    .map(node => {
+      if (node.type === 'text') {
+        return node.text;
+      }
+      const value = lookup(node.name, scopes);
+      if (node.type === 'value') {
+        return typeof value === 'string' ? truncate(value, node.limit) : '';
+      }
+      const empty = !value || (Array.isArray(value) && value.length === 0);
+      if (node.inverted) {
+        return empty ? renderNodes(node.children, scopes) : '';
+      }
+      if (empty) {
+        return '';
+      }
+      return Array.isArray(value)
+        ? value.map(child => renderNodes(node.children, scopes.concat([child]))).join('')
+        : renderNodes(node.children, scopes);
+    })
+    .join('');
+}
+
+// Sections that render nothing leave empty lines behind, those are squeezed out
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return renderNodes(parseTemplate(template), [context])
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function itemContext(item: Item, marketplace: MarketplaceConfig): TemplateContext {
+  return {
+    title: item.title,
+    quantity: item.weight ?? String(item.quantity ?? 1),
+    price: formatMoney(item.price, marketplace),
+    unitPrice: item.unitPrice !== undefined ? formatMoney(item.unitPrice, marketplace) : undefined,
+    total: formatMoney(item.total ?? item.price, marketplace),
+    seller: item.seller,
+    url: item.url,
+  };
+}
+
+export function noteContext(
+  transaction: OrderTransaction,
+  marketplace: MarketplaceConfig,
+  details: { orderDate?: string; originalDate?: string; profile?: string },
+): TemplateContext {
+  const money = (amount: number | undefined) => (amount !== undefined ? formatMoney(amount, marketplace) : undefined);
+  return {
+    orderId: transaction.id,
+    orderUrl: orderUrl(transaction, marketplace),
+    orderDate: details.orderDate,
+    date: transaction.date,
+    originalDate: details.originalDate,
+    amount: money(Math.abs(transaction.amount)),
+    refund: transaction.refund,
+    profile: details.profile,
+    itemCount: String(transaction.items.length),
+    subtotal: money(transaction.summary?.subtotal),
+    shipping: money(transaction.summary?.shipping),
+    tax: money(transaction.summary?.tax),
+    total: money(transaction.summary?.total),
+    items: transaction.items.map(item => itemContext(item, marketplace)),
+  };
+}
@@ -1,9 +1,15 @@
 import { StorageType, createStorage } from '@src/shared/storages/base';
+import { Marketplace } from '../api/marketplace';
+import type { MatchOptions } from '../api/matchUtil';
+import type { MerchantAlias } from '../api/monarchApi';
 
 export enum Page {
   Default = 'default',
   Options = 'options',
   ManualBackfill = 'manualBackfill',
+  Review = 'review',
+  Links = 'links',
+  Rules = 'rules',
 }
 
 export enum AuthStatus {
@@ -18,6 +24,8 @@ export enum FailureReason {
   NoAmazonOrders = 'noAmazonOrders',
   NoAmazonAuth = 'noAmazonAuth',
   AmazonError = 'amazonError',
+  AmazonCaptcha = 'amazonCaptcha',
+  AmazonSignedOut = 'amazonSignedOut',
   NoMonarchAuth = 'noMonarchAuth',
   MonarchError = 'monarchError',
   NoMonarchTransactions = 'noMonarchTransactions',
@@ -31,6 +39,10 @@ export const mapFailureReasonToMessage = (reason: FailureReason | undefined): st
       return 'Amazon authorization failed';
     case FailureReason.AmazonError:
       return 'An error occurred while fetching Amazon orders';
+    case FailureReason.AmazonCaptcha:
+      return 'Amazon asked to verify you are not a robot. Open Amazon, complete the check and try again';
+    case FailureReason.AmazonSignedOut:
+      return 'Amazon signed you out during the sync. Log in to Amazon and try again';
     case FailureReason.NoMonarchAuth:
       return 'Monarch authorization failed';
     case FailureReason.MonarchError:
@@ -42,6 +54,36 @@ export const mapFailureReasonToMessage = (reason: FailureReason | undefined): st
   }
 };
 
+export enum PendingMode {
+  // Write notes to pending transactions and move them to the posted transaction once it shows up
+  Annotate = 'annotate',
+  // Wait until the transaction has posted
+  Skip = 'skip',
+}
+
+export enum CategoryLearning {
+  Off = 'off',
+  // Add the learned category to the note and leave the category alone
+  Suggest = 'suggest',
+  // Set the learned category when a transaction is first annotated
+  Apply = 'apply',
+}
+
+// Names of the Monarch tags added to transactions a sync writes to, an empty name adds no tag
+export type SyncTags = {
+  enabled: boolean;
+  synced: string;
+  refund: string;
+  lowConfidence: string;
+};
+
+export const DEFAULT_SYNC_TAGS: SyncTags = {
+  enabled: false,
+  synced: 'Amazon Sync',
+  refund: 'Amazon Refund',
+  lowConfidence: 'Amazon Low Confidence',
+};
+
 export type LastSync = {
   time: number;
   success: boolean;
@@ -50,11 +92,46 @@ export type LastSync = {
   transactionsUpdated: number;
   failureReason?: FailureReason | undefined;
   dryRun?: boolean;
+  // Low confidence matches that were not written because nobody approved them yet
+  pendingReview?: number;
+};
+
+// An Amazon login feeding this Monarch household. Orders are synced for whichever one is signed in.
+export type AmazonProfile = {
+  id: string;
+  label: string;
+  lastSync?: number;
+  // Amazon's customer id, profiles made before it could be read don't have one yet
+  accountId?: string;
 };
 
-type Options = {
+export const DEFAULT_AMAZON_PROFILE = 'default';
+
+export type Options = {
+  marketplace: Marketplace;
   overrideTransactions: boolean;
-  amazonMerchant: string;
+  // Template for notes, see templateUtil. Empty uses the default note.
+  noteTemplate: string;
+  // Break matched transactions with several items into one Monarch split per item
+  splitTransactions: boolean;
+  // Every Monarch merchant Amazon purchases show up under, e.g. "AMZN Mktp US" and "Amazon.com"
+  merchants: MerchantAlias[];
+  digitalOrders: boolean;
+  amazonDigitalMerchant: string;
+  groceryOrders: boolean;
+  amazonFreshMerchant: string;
+  wholeFoodsMerchant: string;
+  subscriptions: boolean;
+  subscriptionMerchant: string;
+  amazonConcurrency: number;
+  // Payment method key (e.g. "Visa 1234") to the Monarch account id it is charged to
+  paymentAccounts: Record<string, string>;
+  matchOptions: MatchOptions;
+  pendingTransactions: PendingMode;
+  categoryLearning: CategoryLearning;
+  // How sure the learned category has to be, between 0 and 1
+  categoryConfidence: number;
+  syncTags: SyncTags;
   syncEnabled: boolean;
 };
 
@@ -63,6 +140,9 @@ type State = {
   oldestAmazonYear: number | undefined;
   amazonStatus: AuthStatus;
   lastAmazonAuth: number;
+  amazonProfiles: AmazonProfile[];
+  // The profile of the Amazon account that is currently signed in
+  activeAmazonProfile?: string;
   monarchKey?: string;
   monarchStatus: AuthStatus;
   lastMonarchAuth: number;
@@ -77,13 +157,38 @@ const appStorage = createStorage<State>(
     oldestAmazonYear: undefined,
     amazonStatus: AuthStatus.NotLoggedIn,
     lastAmazonAuth: 0,
+    amazonProfiles: [],
+    activeAmazonProfile: undefined,
     monarchKey: undefined,
     monarchStatus: AuthStatus.NotLoggedIn,
     lastMonarchAuth: 0,
     lastSync: undefined,
     options: {
+      marketplace: Marketplace.US,
       overrideTransactions: false,
-      amazonMerchant: 'Amazon',
+      splitTransactions: false,
+      merchants: [{ name: 'Amazon' }],
+      digitalOrders: false,
+      amazonDigitalMerchant: 'Amazon Digital',
+      groceryOrders: false,
+      amazonFreshMerchant: 'Amazon Fresh',
+      wholeFoodsMerchant: 'Whole Foods Market',
+      subscriptions: false,
+      subscriptionMerchant: 'Amazon Prime',
+      amazonConcurrency: 5,
+      paymentAccounts: {},
+      matchOptions: {
+        windowDays: 7,
+        amountTolerance: 0,
+        amountTolerancePercent: 0,
+        chargeAfterOrderOnly: false,
+        confidenceThreshold: 0.5,
+      },
+      pendingTransactions: PendingMode.Annotate,
+      categoryLearning: CategoryLearning.Off,
+      categoryConfidence: 0.8,
+      syncTags: DEFAULT_SYNC_TAGS,
+      noteTemplate: '',
       syncEnabled: false,
     },
   },
@@ -93,4 +198,86 @@ const appStorage = createStorage<State>(
   },
 );
 
+// The profile an account was seen under before, or one made before the account could be told apart
+function findAmazonProfile(
+  profiles: AmazonProfile[],
+  active: AmazonProfile | undefined,
+  accountId: string | undefined,
+  accountName: string | undefined,
+): AmazonProfile | undefined {
+  const known = accountId ? profiles.find(profile => profile.accountId === accountId) : undefined;
+  if (known) {
+    return known;
+  }
+  const unclaimed = profiles.filter(profile => !profile.accountId);
+  const named = accountName ? unclaimed.find(profile => profile.label === accountName) : undefined;
+  if (named) {
+    return named;
+  }
+  // The profile made when nothing could be read belongs to this account as long as it is the only one
+  if (profiles.length === 1 && unclaimed[0]?.id === DEFAULT_AMAZON_PROFILE) {
+    return unclaimed[0];
+  }
+  if (!accountId && accountName) {
+    const sameName = profiles.filter(profile => profile.label === accountName);
+    return sameName.find(profile => profile === active) ?? sameName[0];
+  }
+  // Nothing could be read, rather one of the known profiles than another default one
+  return accountId || accountName ? undefined : profiles[0];
+}
+
+// Finds or creates the profile for the signed in Amazon account and makes it the active one
+export async function activateAmazonProfile(account: {
+  accountId?: string;
+  accountName?: string;
+}): Promise<AmazonProfile> {
+  const { accountId, accountName } = account;
+  const { amazonProfiles, activeAmazonProfile } = await appStorage.get();
+  const profiles = amazonProfiles ?? [];
+
+  // Keep using the last account when nothing about it can be read from the page
+  const active = profiles.find(profile => profile.id === activeAmazonProfile);
+  if (!accountId && !accountName && active) {
+    return active;
+  }
+
+  const existing = findAmazonProfile(profiles, active, accountId, accountName);
+  if (existing) {
+    // Ids stay the same so the stored orders of the profile keep belonging to it
+    const profile: AmazonProfile = {
+      ...existing,
+      accountId: existing.accountId ?? accountId,
+      label: existing.id === DEFAULT_AMAZON_PROFILE && accountName ? accountName : existing.label,
+    };
+    await appStorage.patch({
+      amazonProfiles: profiles.map(other => (other.id === existing.id ? profile : other)),
+      activeAmazonProfile: profile.id,
+    });
+    return profile;
+  }
+
+  const base = (accountId ?? accountName)?.toLowerCase().replace(/[^a-z0-9]+/g, '-') || DEFAULT_AMAZON_PROFILE;
+  let id = base;
+  for (let n = 2; profiles.some(profile => profile.id === id); n++) {
+    id = base + '-' + n;
+  }
+  // Two logins with the same name would otherwise look the same in notes
+  const label =
+    accountName && accountId && profiles.some(profile => profile.label === accountName)
+      ? accountName + ' (' + accountId.slice(-4) + ')'
+      : accountName || 'Amazon';
+  const profile: AmazonProfile = { id, label, accountId };
+  await appStorage.patch({ amazonProfiles: profiles.concat([profile]), activeAmazonProfile: id });
+  return profile;
+}
+
+// Settings saved before there was a list of merchants have a single search string
+export function merchantAliases(options: Options): MerchantAlias[] {
+  if (options.merchants) {
+    return options.merchants;
+  }
+  const legacy = (options as Options & { amazonMerchant?: string }).amazonMerchant;
+  return [{ name: legacy || 'Amazon' }];
+}
+
 export default appStorage;
@@ -0,0 +1,51 @@
+import { createStorage, StorageType } from '@src/shared/storages/base';
+import { CategoryExample, noteTokens } from '../api/classifierUtil';
+import { Transaction } from '../api/monarchApi';
+
+// Monarch's name for transactions nobody has categorized, nothing to learn from
+const UNCATEGORIZED = 'Uncategorized';
+
+type State = {
+  // What past Amazon transactions were categorized as, by Monarch transaction id
+  examples: Record<string, CategoryExample>;
+};
+
+const categoryStorage = createStorage<State>(
+  'categories',
+  {
+    examples: {},
+  },
+  {
+    storageType: StorageType.Local,
+    liveUpdate: true,
+  },
+);
+
+/**
+ * Keeps the category and note of every synced transaction to learn from. Transactions that were recategorized since
+ * replace what was learned before, split transactions are skipped since their category is in the splits.
+ */
+export async function rememberCategories(transactions: Transaction[]) {
+  await categoryStorage.set(state => {
+    const examples = { ...(state?.examples ?? {}) };
+    for (const transaction of transactions) {
+      const tokens = noteTokens(transaction.notes ?? '');
+      if (
+        !transaction.category ||
+        transaction.category.name === UNCATEGORIZED ||
+        transaction.hasSplitTransactions ||
+        tokens.length === 0
+      ) {
+        delete examples[transaction.id];
+        continue;
+      }
+      examples[transaction.id] = {
+        tokens,
+        category: { id: transaction.category.id, name: transaction.category.name },
+      };
+    }
+    return { examples };
+  });
+}
+
+export default categoryStorage;
@@ -0,0 +1,40 @@
+import { createStorage, StorageType } from '@src/shared/storages/base';
+import type { MatchLinks } from '../api/matchUtil';
+
+const linkStorage = createStorage<MatchLinks>(
+  'links',
+  {
+    pinned: {},
+    neverMatch: [],
+  },
+  {
+    storageType: StorageType.Local,
+    liveUpdate: true,
+  },
+);
+
+export async function pinTransaction(monarchId: string, orderId: string) {
+  await linkStorage.set(state => ({
+    pinned: { ...(state?.pinned ?? {}), [monarchId]: orderId },
+    neverMatch: (state?.neverMatch ?? []).filter(id => id !== monarchId),
+  }));
+}
+
+export async function neverMatchTransaction(monarchId: string) {
+  await linkStorage.set(state => {
+    const pinned = { ...(state?.pinned ?? {}) };
+    delete pinned[monarchId];
+    return { pinned, neverMatch: [...new Set((state?.neverMatch ?? []).concat([monarchId]))] };
+  });
+}
+
+// Removes the pin or "never match" of a transaction, so the matcher decides again
+export async function unlinkTransaction(monarchId: string) {
+  await linkStorage.set(state => {
+    const pinned = { ...(state?.pinned ?? {}) };
+    delete pinned[monarchId];
+    return { pinned, neverMatch: (state?.neverMatch ?? []).filter(id => id !== monarchId) };
+  });
+}
+
+export default linkStorage;
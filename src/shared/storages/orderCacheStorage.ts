@@ -0,0 +1,66 @@
+import { createStorage, StorageType } from '@src/shared/storages/base';
+import { Order, isOrderFinal } from '../api/amazonApi';
+
+export type CachedOrder = {
+  order: Order;
+  // Final orders can't change anymore and are never downloaded again
+  final: boolean;
+  fetchedAt: number;
+};
+
+type State = {
+  orders: Record<string, CachedOrder>;
+};
+
+const orderCacheStorage = createStorage<State>(
+  'orderCache',
+  {
+    orders: {},
+  },
+  {
+    storageType: StorageType.Local,
+    liveUpdate: true,
+  },
+);
+
+// Item images are never shown and every charge repeats the order summary, neither is worth the storage quota.
+// Orders read from the cache get the summary back in downloadOrders.
+function compactOrder(order: Order): Order {
+  return {
+    ...order,
+    transactions: order.transactions?.map(transaction => ({
+      ...transaction,
+      summary: undefined,
+      items: transaction.items.map(item => ({ ...item, imageUrl: undefined })),
+    })),
+  };
+}
+
+export async function cacheOrders(orders: Order[]) {
+  const now = Date.now();
+  // Orders older than what was just synced are only asked for again by a backfill, which can download them again.
+  // Without this the cache would grow with every backfill until the storage quota is used up.
+  const oldest = orders
+    .map(order => order.date)
+    .filter(date => /^\d{4}-\d{2}-\d{2}$/.test(date))
+    .sort()[0];
+  await orderCacheStorage.set(state => {
+    const cached: Record<string, CachedOrder> = {};
+    for (const [id, entry] of Object.entries(state?.orders ?? {})) {
+      if (oldest && entry.order.date < oldest) continue;
+      cached[id] = { ...entry, order: compactOrder(entry.order) };
+    }
+    for (const order of orders) {
+      // Keep the original fetch time for orders that came out of the cache
+      if (cached[order.id]?.final) continue;
+      cached[order.id] = {
+        order: compactOrder(order),
+        final: isOrderFinal(order),
+        fetchedAt: now,
+      };
+    }
+    return { orders: cached };
+  });
+}
+
+export default orderCacheStorage;
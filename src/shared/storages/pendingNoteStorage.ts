@@ -0,0 +1,53 @@
+import { createStorage, StorageType } from '@src/shared/storages/base';
+import { Transaction } from '../api/monarchApi';
+
+// A note written to a pending transaction. Banks usually post the charge as a new transaction with a new id, so the
+// note is kept here until the posted transaction has it too.
+export type PendingNote = {
+  note: string;
+  amount: number;
+  date: string;
+  accountId?: string;
+  writtenAt: number;
+};
+
+type State = {
+  // By the id of the pending Monarch transaction
+  notes: Record<string, PendingNote>;
+};
+
+const pendingNoteStorage = createStorage<State>(
+  'pendingNotes',
+  {
+    notes: {},
+  },
+  {
+    storageType: StorageType.Local,
+    liveUpdate: true,
+  },
+);
+
+export async function rememberPendingNote(transaction: Transaction, note: string) {
+  await pendingNoteStorage.set(state => ({
+    notes: {
+      ...(state?.notes ?? {}),
+      [transaction.id]: {
+        note,
+        amount: transaction.amount,
+        date: transaction.date,
+        accountId: transaction.account?.id,
+        writtenAt: Date.now(),
+      },
+    },
+  }));
+}
+
+export async function forgetPendingNotes(ids: string[]) {
+  await pendingNoteStorage.set(state => {
+    const notes = { ...(state?.notes ?? {}) };
+    ids.forEach(id => delete notes[id]);
+    return { notes };
+  });
+}
+
+export default pendingNoteStorage;
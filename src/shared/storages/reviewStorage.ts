@@ -0,0 +1,42 @@
+import { createStorage, StorageType } from '@src/shared/storages/base';
+import type { MatchedTransaction } from '../api/matchUtil';
+
+export enum ReviewDecision {
+  Approved = 'approved',
+  Rejected = 'rejected',
+}
+
+type State = {
+  // Decisions on low confidence matches, by matchKey
+  decisions: Record<string, ReviewDecision>;
+};
+
+const reviewStorage = createStorage<State>(
+  'review',
+  {
+    decisions: {},
+  },
+  {
+    storageType: StorageType.Local,
+    liveUpdate: true,
+  },
+);
+
+// Identifies a match across syncs. A different charge for the same transaction is a new match and is reviewed again.
+export function matchKey(match: MatchedTransaction): string {
+  return [match.monarch.id, match.amazon.id, match.amazon.date, match.amazon.amount].join(':');
+}
+
+export async function reviewMatch(match: MatchedTransaction, decision: ReviewDecision | undefined) {
+  await reviewStorage.set(state => {
+    const decisions = { ...(state?.decisions ?? {}) };
+    if (decision) {
+      decisions[matchKey(match)] = decision;
+    } else {
+      delete decisions[matchKey(match)];
+    }
+    return { decisions };
+  });
+}
+
+export default reviewStorage;
@@ -0,0 +1,49 @@
+import { createStorage, StorageType } from '@src/shared/storages/base';
+import type { Rule } from '../api/ruleUtil';
+
+type State = {
+  // Applied in this order
+  rules: Rule[];
+};
+
+const ruleStorage = createStorage<State>(
+  'rules',
+  {
+    rules: [],
+  },
+  {
+    storageType: StorageType.Local,
+    liveUpdate: true,
+  },
+);
+
+export async function saveRule(rule: Rule) {
+  await ruleStorage.set(state => {
+    const rules = state?.rules ?? [];
+    return {
+      rules: rules.some(existing => existing.id === rule.id)
+        ? rules.map(existing => (existing.id === rule.id ? rule : existing))
+        : rules.concat([rule]),
+    };
+  });
+}
+
+export async function removeRule(id: string) {
+  await ruleStorage.set(state => ({ rules: (state?.rules ?? []).filter(rule => rule.id !== id) }));
+}
+
+// Moves a rule one place up or down, earlier rules win when rules disagree
+export async function moveRule(id: string, offset: number) {
+  await ruleStorage.set(state => {
+    const rules = [...(state?.rules ?? [])];
+    const index = rules.findIndex(rule => rule.id === id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= rules.length) {
+      return { rules };
+    }
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    return { rules };
+  });
+}
+
+export default ruleStorage;
@@ -1,6 +1,7 @@
 import { createStorage, StorageType } from '@src/shared/storages/base';
 import { Order } from '../api/amazonApi';
 import { Transaction } from '../api/monarchApi';
+import type { UnmatchedEntry } from '../api/matchUtil';
 
 export enum TransactionStatus {
   Pending = 'pending',
@@ -10,15 +11,19 @@ export enum TransactionStatus {
 
 type State = {
   result: TransactionStatus;
-  orders: Order[];
+  // The orders last synced for each Amazon profile, by profile id. Read them merged with storedOrders.
+  profileOrders: Record<string, Order[]>;
   transactions: Transaction[];
+  // What the last sync could not match, on both sides
+  unmatched: UnmatchedEntry[];
 };
 
 const transactionStorage = createStorage<State>(
   'transactions',
   {
-    orders: [],
+    profileOrders: {},
     transactions: [],
+    unmatched: [],
     result: TransactionStatus.Pending,
   },
   {
@@ -27,4 +32,32 @@ const transactionStorage = createStorage<State>(
   },
 );
 
+// Orders of every Amazon profile merged together, this is what gets matched. The same order can't belong to two
+// accounts, but if it shows up twice the copy of the profile synced last wins.
+export function storedOrders({ profileOrders }: { profileOrders?: Record<string, Order[]> }): Order[] {
+  const merged = new Map<string, Order>();
+  for (const orders of Object.values(profileOrders ?? {})) {
+    for (const order of orders) merged.set(order.id, order);
+  }
+  return [...merged.values()];
+}
+
+// Replaces the orders of one profile and returns the orders of all profiles merged
+export async function storeProfileOrders(profileId: string, orders: Order[]): Promise<Order[]> {
+  const { profileOrders } = await transactionStorage.get();
+  // Moved to the end so its orders win over copies in other profiles
+  const updated = { ...(profileOrders ?? {}) };
+  delete updated[profileId];
+  updated[profileId] = orders;
+  await transactionStorage.patch({ profileOrders: updated });
+  return storedOrders({ profileOrders: updated });
+}
+
+export async function removeProfileOrders(profileId: string) {
+  const { profileOrders } = await transactionStorage.get();
+  const updated = { ...(profileOrders ?? {}) };
+  delete updated[profileId];
+  await transactionStorage.patch({ profileOrders: updated });
+}
+
 export default transactionStorage;
@@ -1,4 +1,6 @@
 export enum Action {
   DryRun = 'DRY_RUN',
   FullSync = 'FULL_SYNC',
+  Import = 'IMPORT',
+  ApplyReviewed = 'APPLY_REVIEWED',
 }
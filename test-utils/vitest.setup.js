@@ -0,0 +1,19 @@
+// Storages are created when their modules are loaded, so anything importing one needs chrome.storage to exist.
+// Each area keeps its values in memory for the run.
+function storageArea() {
+  const values = {};
+  return {
+    get: async keys => Object.fromEntries([].concat(keys).map(key => [key, values[key]])),
+    set: async items => Object.assign(values, items),
+    setAccessLevel: async () => {},
+    onChanged: { addListener: () => {} },
+  };
+}
+
+globalThis.chrome = {
+  storage: {
+    local: storageArea(),
+    session: storageArea(),
+    sync: storageArea(),
+  },
+};